@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { DiffUtils } from './diffUtils';
+import { Utils } from './utils';
+
+/**
+ * 增量存储的内容：相对于较新版本（基准）的差异
+ * 数字对表示复制基准中的若干行，字符串表示新增的内容
+ */
+interface BlobDelta {
+    base: string;
+    ops: ([number, number] | string)[];
+}
+
+/**
+ * 按内容哈希寻址的快照存储
+ * 相同内容只保存一份，由多条历史记录共同引用。内容使用 zlib 压缩保存，
+ * 同一文件的旧版本还可以保存为相对于较新版本的反向增量
+ */
+export class BlobStore {
+    /**
+     * 快照内容所在的目录名
+     */
+    public static readonly DIR_NAME = 'blobs';
+
+    /**
+     * 压缩保存的完整内容的扩展名
+     */
+    private static readonly FULL_EXT = '.z';
+
+    /**
+     * 压缩保存的反向增量的扩展名
+     */
+    private static readonly DELTA_EXT = '.d';
+
+    /**
+     * 还原内容时允许的最大增量层数，防止存储损坏时陷入死循环
+     */
+    private static readonly MAX_DELTA_DEPTH = 1000;
+
+    /**
+     * 临时文件超过该时长（毫秒）仍未被重命名时视为中断的写入，清理时可以删除
+     * 存储可能被多个窗口共用，较新的临时文件可能是其他窗口正在进行的写入
+     */
+    private static readonly STALE_TEMP_FILE_AGE = 10 * 60 * 1000;
+
+    private blobsDir: string;
+
+    /**
+     * 已存储内容占用的字节数，首次使用时统计，之后随写入和清理更新
+     */
+    private totalSize: number | undefined;
+
+    constructor(basePath: string) {
+        this.blobsDir = path.join(basePath, BlobStore.DIR_NAME);
+    }
+
+    /**
+     * 计算内容的哈希值
+     */
+    public static hashContent(content: Buffer): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /**
+     * 获取指定哈希对应的存储路径（不含扩展名），按哈希前两位分目录避免单个目录文件过多
+     */
+    private getBlobPath(hash: string): string {
+        return path.join(this.blobsDir, hash.substring(0, 2), hash);
+    }
+
+    /**
+     * 判断指定内容是否已经存储
+     */
+    public has(hash: string): boolean {
+        const blobPath = this.getBlobPath(hash);
+        return fs.existsSync(blobPath + BlobStore.FULL_EXT) ||
+               fs.existsSync(blobPath + BlobStore.DELTA_EXT) ||
+               fs.existsSync(blobPath);
+    }
+
+    /**
+     * 判断指定内容是否以增量形式存储
+     */
+    public isDelta(hash: string): boolean {
+        return fs.existsSync(this.getBlobPath(hash) + BlobStore.DELTA_EXT);
+    }
+
+    /**
+     * 获取指定内容在磁盘上占用的字节数，内容不存在时返回 0
+     */
+    public getStoredSize(hash: string): number {
+        const blobPath = this.getBlobPath(hash);
+        for (const filePath of [blobPath + BlobStore.FULL_EXT, blobPath + BlobStore.DELTA_EXT, blobPath]) {
+            try {
+                return fs.statSync(filePath).size;
+            } catch (e) {
+                continue;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * 获取所有内容占用的字节数
+     * 只在首次调用时遍历目录，其他窗口写入的内容在下次清理时才会计入
+     */
+    public getTotalSize(): number {
+        if (this.totalSize === undefined) {
+            this.totalSize = 0;
+            this.forEachBlobFile(filePath => {
+                this.totalSize! += fs.statSync(filePath).size;
+            });
+        }
+        return this.totalSize;
+    }
+
+    /**
+     * 存储内容并返回其哈希，已存在的内容不会重复写入
+     */
+    public write(content: Buffer): string {
+        const hash = BlobStore.hashContent(content);
+
+        if (!this.has(hash)) {
+            const compressed = zlib.deflateSync(content);
+            this.writeFile(this.getBlobPath(hash) + BlobStore.FULL_EXT, compressed);
+            this.addToTotalSize(compressed.length);
+        }
+
+        return hash;
+    }
+
+    /**
+     * 将旧版本改为保存相对于新版本的反向增量，仅在能明显节省空间时进行
+     * 新版本必须是完整存储的，这样增量链总是指向更新的版本，不会形成环
+     */
+    public storeAsDelta(hash: string, baseHash: string): boolean {
+        try {
+            const fullPath = this.getBlobPath(hash) + BlobStore.FULL_EXT;
+            if (hash === baseHash || !fs.existsSync(fullPath) || this.isDelta(baseHash)) {
+                return false;
+            }
+
+            const content = this.read(hash);
+            const baseContent = this.read(baseHash);
+            // 二进制内容只压缩不做增量
+            if (!content || !baseContent || Utils.isBinaryContent(content) || Utils.isBinaryContent(baseContent)) {
+                return false;
+            }
+
+            const delta: BlobDelta = {
+                base: baseHash,
+                ops: this.createDeltaOps(baseContent.toString('latin1'), content.toString('latin1'))
+            };
+            const compressed = zlib.deflateSync(Buffer.from(JSON.stringify(delta), 'utf8'));
+
+            // 增量没有明显小于完整内容时保持原样
+            const fullSize = fs.statSync(fullPath).size;
+            if (compressed.length >= fullSize * 0.8) {
+                return false;
+            }
+
+            this.writeFile(this.getBlobPath(hash) + BlobStore.DELTA_EXT, compressed);
+            fs.unlinkSync(fullPath);
+            this.addToTotalSize(compressed.length - fullSize);
+            return true;
+        } catch (error) {
+            console.error('保存增量内容失败:', error);
+            return false;
+        }
+    }
+
+    /**
+     * 读取指定哈希的内容，增量存储的内容会逐级还原，内容不存在（例如已被清理）时返回 null
+     */
+    public read(hash: string): Buffer | null {
+        try {
+            if (!this.has(hash)) {
+                return null;
+            }
+            return this.readBlob(hash, 0);
+        } catch (error) {
+            console.error('读取快照内容失败:', error);
+            return null;
+        }
+    }
+
+    /**
+     * 删除未被任何历史记录引用的内容，返回删除的数量
+     * 被引用的增量所依赖的基准内容会一并保留，同时重新统计占用的字节数
+     */
+    public prune(referencedHashes: Set<string>): number {
+        if (!fs.existsSync(this.blobsDir)) {
+            return 0;
+        }
+
+        const keep = new Set<string>();
+        for (const hash of referencedHashes) {
+            let current: string | undefined = hash;
+            while (current && !keep.has(current)) {
+                keep.add(current);
+                current = this.readDeltaBase(current);
+            }
+        }
+
+        let removed = 0;
+        let totalSize = 0;
+        const now = Date.now();
+        this.forEachBlobFile(filePath => {
+            const file = path.basename(filePath);
+            const hash = path.basename(file, path.extname(file));
+            if (file.endsWith('.tmp')) {
+                // 临时文件可能已在遍历期间被写入的窗口重命名
+                const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+                if (!stats || now - stats.mtimeMs < BlobStore.STALE_TEMP_FILE_AGE) {
+                    return;
+                }
+            } else if (keep.has(hash)) {
+                totalSize += fs.statSync(filePath).size;
+                return;
+            }
+
+            try {
+                fs.unlinkSync(filePath);
+                removed++;
+            } catch (e) {
+                // 忽略删除失败的错误
+            }
+        });
+
+        this.totalSize = totalSize;
+        return removed;
+    }
+
+    /**
+     * 压缩未压缩保存的内容，返回处理的数量
+     */
+    public compressUncompressedBlobs(): number {
+        if (!fs.existsSync(this.blobsDir)) {
+            return 0;
+        }
+
+        let compressed = 0;
+        for (const prefix of fs.readdirSync(this.blobsDir)) {
+            const prefixDir = path.join(this.blobsDir, prefix);
+            if (!fs.statSync(prefixDir).isDirectory()) {
+                continue;
+            }
+
+            for (const file of fs.readdirSync(prefixDir)) {
+                if (path.extname(file) !== '') {
+                    continue;
+                }
+
+                const rawPath = path.join(prefixDir, file);
+                this.writeFile(rawPath + BlobStore.FULL_EXT, zlib.deflateSync(fs.readFileSync(rawPath)));
+                fs.unlinkSync(rawPath);
+                compressed++;
+            }
+        }
+
+        this.totalSize = undefined;
+        return compressed;
+    }
+
+    /**
+     * 遍历存储目录中的所有文件
+     */
+    private forEachBlobFile(callback: (filePath: string) => void): void {
+        if (!fs.existsSync(this.blobsDir)) {
+            return;
+        }
+
+        for (const prefix of fs.readdirSync(this.blobsDir)) {
+            const prefixDir = path.join(this.blobsDir, prefix);
+            if (!fs.statSync(prefixDir).isDirectory()) {
+                continue;
+            }
+
+            for (const file of fs.readdirSync(prefixDir)) {
+                callback(path.join(prefixDir, file));
+            }
+        }
+    }
+
+    /**
+     * 更新已统计的占用字节数
+     */
+    private addToTotalSize(delta: number): void {
+        if (this.totalSize !== undefined) {
+            this.totalSize += delta;
+        }
+    }
+
+    /**
+     * 读取内容，depth 为当前已还原的增量层数
+     */
+    private readBlob(hash: string, depth: number): Buffer {
+        if (depth > BlobStore.MAX_DELTA_DEPTH) {
+            throw new Error(`增量层数过多: ${hash}`);
+        }
+
+        const blobPath = this.getBlobPath(hash);
+
+        if (fs.existsSync(blobPath + BlobStore.DELTA_EXT)) {
+            const delta = this.readDelta(hash);
+            const baseText = this.readBlob(delta.base, depth + 1).toString('latin1');
+            return Buffer.from(this.applyDeltaOps(baseText, delta.ops), 'latin1');
+        }
+
+        if (fs.existsSync(blobPath + BlobStore.FULL_EXT)) {
+            return zlib.inflateSync(fs.readFileSync(blobPath + BlobStore.FULL_EXT));
+        }
+
+        // 早期版本未压缩保存的内容
+        return fs.readFileSync(blobPath);
+    }
+
+    /**
+     * 读取增量内容
+     */
+    private readDelta(hash: string): BlobDelta {
+        const data = zlib.inflateSync(fs.readFileSync(this.getBlobPath(hash) + BlobStore.DELTA_EXT));
+        return JSON.parse(data.toString('utf8')) as BlobDelta;
+    }
+
+    /**
+     * 获取增量内容依赖的基准哈希，非增量内容返回 undefined
+     */
+    private readDeltaBase(hash: string): string | undefined {
+        try {
+            return this.isDelta(hash) ? this.readDelta(hash).base : undefined;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * 根据基准内容和目标内容生成增量操作
+     * 使用 latin1 编码使字节与字符一一对应，保证任意内容都能原样还原
+     */
+    private createDeltaOps(baseText: string, targetText: string): ([number, number] | string)[] {
+        const baseLines = DiffUtils.splitLines(baseText);
+        const targetLines = DiffUtils.splitLines(targetText);
+        const ops: ([number, number] | string)[] = [];
+
+        let baseLine = 0;
+        for (const change of DiffUtils.diffLines(baseLines, targetLines)) {
+            if (change.originalStart > baseLine) {
+                ops.push([baseLine, change.originalStart - baseLine]);
+            }
+            if (change.modifiedLength > 0) {
+                ops.push(targetLines.slice(change.modifiedStart, change.modifiedStart + change.modifiedLength).join(''));
+            }
+            baseLine = change.originalStart + change.originalLength;
+        }
+
+        if (baseLine < baseLines.length) {
+            ops.push([baseLine, baseLines.length - baseLine]);
+        }
+
+        return ops;
+    }
+
+    /**
+     * 将增量操作应用到基准内容上
+     */
+    private applyDeltaOps(baseText: string, ops: ([number, number] | string)[]): string {
+        const baseLines = DiffUtils.splitLines(baseText);
+        return ops
+            .map(op => typeof op === 'string' ? op : baseLines.slice(op[0], op[0] + op[1]).join(''))
+            .join('');
+    }
+
+    /**
+     * 先写入临时文件再重命名，避免中途失败留下不完整的内容
+     */
+    private writeFile(filePath: string, data: Buffer): void {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, data);
+        fs.renameSync(tempPath, filePath);
+    }
+}
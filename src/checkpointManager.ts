@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { BlobStore } from './blobStore';
+import { Utils } from './utils';
+
+/**
+ * 检查点中记录的单个文件
+ */
+export interface CheckpointFile {
+    filePath: string;          // 原始文件路径
+    historyFilePath: string;   // 对应的历史记录元数据文件路径
+    contentHash: string;       // 快照内容的哈希
+}
+
+/**
+ * 项目检查点：同一时刻整个工作区所有文件的快照
+ */
+export interface Checkpoint {
+    id: string;
+    name: string;
+    timestamp: string;
+    folders?: string[];        // 创建检查点时打开的工作区文件夹
+    files: CheckpointFile[];
+}
+
+/**
+ * 检查点中的文件与当前工作区相比的状态
+ */
+export type CheckpointFileStatus = 'unchanged' | 'modified' | 'deleted';
+
+/**
+ * 项目检查点管理器
+ * 检查点中每个文件的快照都记录了对检查点的引用，删除检查点之前不会被自动清理
+ */
+export class CheckpointManager {
+    private checkpointsDir: string;
+    // 文件内容哈希的缓存，文件的修改时间和大小不变时无需重新读取
+    private hashCache = new Map<string, { mtimeMs: number, size: number, hash: string }>();
+
+    constructor(private historyManager: HistoryManager) {
+        this.checkpointsDir = path.join(historyManager.getHistoryBasePath(), 'checkpoints');
+    }
+
+    /**
+     * 为工作区中所有被跟踪的文件创建检查点，取消时返回 undefined
+     */
+    public async createCheckpoint(
+        name: string,
+        progress?: vscode.Progress<{ message?: string, increment?: number }>,
+        token?: vscode.CancellationToken
+    ): Promise<Checkpoint | undefined> {
+        // 每个工作区文件夹使用各自的排除规则
+        const uris: vscode.Uri[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const excludePatterns = Utils.getConfiguration(folder.uri.fsPath).get<string[]>('excludedFiles', []);
+            const exclude = excludePatterns.length > 0 ? `{${excludePatterns.join(',')}}` : undefined;
+            uris.push(...await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/*'), exclude, undefined, token));
+        }
+
+        const checkpoint: Checkpoint = {
+            id: Date.now().toString(),
+            name,
+            timestamp: Utils.getFormattedTimestamp(),
+            folders: (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+            files: []
+        };
+
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) {
+                return undefined;
+            }
+
+            progress?.report({ message: path.basename(uri.fsPath), increment: 100 / uris.length });
+
+            // 排除规则由 saveHistory 统一判断，被排除的文件不会返回历史记录
+            const entry = await this.historyManager.saveHistory(uri.fsPath, { checkpoint: checkpoint.id });
+            if (entry) {
+                checkpoint.files.push({
+                    filePath: entry.filePath,
+                    historyFilePath: entry.historyFilePath,
+                    contentHash: entry.contentHash
+                });
+            }
+        }
+
+        fs.mkdirSync(this.checkpointsDir, { recursive: true });
+        fs.writeFileSync(this.getCheckpointPath(checkpoint.id), JSON.stringify(checkpoint));
+
+        return checkpoint;
+    }
+
+    /**
+     * 获取属于当前工作区的检查点，按时间逆序排序
+     * 检查点保存在全局存储中，只列出所在工作区文件夹都已打开的检查点，避免恢复到未打开的项目中
+     */
+    public getCheckpoints(): Checkpoint[] {
+        if (!fs.existsSync(this.checkpointsDir)) {
+            return [];
+        }
+
+        const checkpoints: Checkpoint[] = [];
+        for (const file of fs.readdirSync(this.checkpointsDir)) {
+            if (!file.endsWith('.json')) {
+                continue;
+            }
+
+            try {
+                const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(path.join(this.checkpointsDir, file), 'utf8'));
+                if (this.isInWorkspace(checkpoint)) {
+                    checkpoints.push(checkpoint);
+                }
+            } catch (e) {
+                continue;
+            }
+        }
+
+        return checkpoints.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    }
+
+    /**
+     * 判断检查点是否属于当前打开的工作区
+     * 没有记录工作区文件夹的旧检查点按其中的文件是否都在当前工作区中判断
+     */
+    private isInWorkspace(checkpoint: Checkpoint): boolean {
+        const openFolders = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        if (checkpoint.folders) {
+            return checkpoint.folders.length > 0 && checkpoint.folders.every(folder => openFolders.includes(folder));
+        }
+
+        return checkpoint.files.length > 0 && checkpoint.files.every(file => !!Utils.getWorkspaceFolder(file.filePath));
+    }
+
+    /**
+     * 删除检查点，并移除其对各文件快照的引用，这些快照之后按保留策略正常清理
+     */
+    public async deleteCheckpoint(checkpoint: Checkpoint): Promise<void> {
+        try {
+            fs.unlinkSync(this.getCheckpointPath(checkpoint.id));
+
+            for (const file of checkpoint.files) {
+                const entry = this.getEntry(file);
+                if (!entry) {
+                    continue;
+                }
+
+                // 旧版本的检查点以检查点名称作为快照的标签
+                if (!entry.checkpoints && entry.note === checkpoint.name) {
+                    this.historyManager.updateNote(entry, undefined);
+                    await this.historyManager.cleanupHistory(entry.filePath);
+                } else {
+                    await this.historyManager.releaseCheckpoint(entry, checkpoint.id);
+                }
+            }
+        } catch (error) {
+            console.error('删除检查点失败:', error);
+        }
+    }
+
+    /**
+     * 比较检查点中的文件与当前工作区中的文件
+     */
+    public getFileStatus(file: CheckpointFile): CheckpointFileStatus {
+        try {
+            if (!fs.existsSync(file.filePath)) {
+                return 'deleted';
+            }
+
+            return this.getContentHash(file.filePath) === file.contentHash ? 'unchanged' : 'modified';
+        } catch (e) {
+            return 'modified';
+        }
+    }
+
+    /**
+     * 获取文件当前内容的哈希，文件未被修改时使用缓存的结果
+     */
+    private getContentHash(filePath: string): string {
+        const stats = fs.statSync(filePath);
+        const cached = this.hashCache.get(filePath);
+        if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+            return cached.hash;
+        }
+
+        const hash = BlobStore.hashContent(fs.readFileSync(filePath));
+        this.hashCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, hash });
+        return hash;
+    }
+
+    /**
+     * 获取检查点文件对应的历史记录，历史记录已被删除时返回 null
+     * 文件在创建检查点后被重命名时，历史记录会被转移到新路径下
+     */
+    public getEntry(file: CheckpointFile): HistoryEntry | null {
+        return this.historyManager.getEntry(file.historyFilePath) ||
+               this.historyManager.findEntry(file.filePath, file.contentHash);
+    }
+
+    /**
+     * 将检查点中的文件恢复到当前工作区，返回恢复失败的文件
+     */
+    public async restoreFiles(files: CheckpointFile[]): Promise<CheckpointFile[]> {
+        const failed: CheckpointFile[] = [];
+
+        for (const file of files) {
+            const entry = this.getEntry(file);
+            if (!entry || !await this.historyManager.restoreHistory(entry, file.filePath)) {
+                failed.push(file);
+            }
+        }
+
+        return failed;
+    }
+
+    /**
+     * 获取检查点文件的路径
+     */
+    private getCheckpointPath(id: string): string {
+        return path.join(this.checkpointsDir, `${id}.json`);
+    }
+}
@@ -0,0 +1,332 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HistoryManager } from './historyManager';
+import { Checkpoint, CheckpointFile, CheckpointFileStatus, CheckpointManager } from './checkpointManager';
+import { CompareView } from './compareView';
+import { Utils } from './utils';
+
+/**
+ * 检查点树项
+ */
+class CheckpointItem extends vscode.TreeItem {
+    constructor(public readonly checkpoint: Checkpoint) {
+        super(checkpoint.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+        const time = Utils.formatTimestampForDisplay(checkpoint.timestamp);
+        this.description = `${time} · ${checkpoint.files.length} 个文件`;
+        this.tooltip = `${checkpoint.name}\n${time}\n共 ${checkpoint.files.length} 个文件`;
+        this.contextValue = 'checkpoint';
+        this.iconPath = new vscode.ThemeIcon('milestone');
+    }
+}
+
+/**
+ * 检查点中与当前工作区不同的文件
+ */
+class CheckpointFileItem extends vscode.TreeItem {
+    constructor(
+        public readonly checkpoint: Checkpoint,
+        public readonly file: CheckpointFile,
+        public readonly status: CheckpointFileStatus
+    ) {
+        super(vscode.workspace.asRelativePath(file.filePath), vscode.TreeItemCollapsibleState.None);
+
+        this.description = status === 'deleted' ? '已删除' : '已修改';
+        this.tooltip = `${file.filePath}\n${this.description}`;
+        this.contextValue = 'checkpointFile';
+        this.resourceUri = vscode.Uri.file(file.filePath);
+        this.iconPath = vscode.ThemeIcon.File;
+
+        this.command = {
+            command: 'filelocalhistory.compareCheckpointFile',
+            title: '与当前版本比较',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * 检查点树数据提供者
+ */
+export class CheckpointViewProvider implements vscode.TreeDataProvider<CheckpointItem | CheckpointFileItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<CheckpointItem | CheckpointFileItem | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private checkpointManager: CheckpointManager) {}
+
+    /**
+     * 刷新视图
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * 获取树项元素
+     */
+    getTreeItem(element: CheckpointItem | CheckpointFileItem): vscode.TreeItem {
+        return element;
+    }
+
+    /**
+     * 获取子树项，检查点下只列出与当前工作区不同的文件
+     */
+    getChildren(element?: CheckpointItem | CheckpointFileItem): Thenable<(CheckpointItem | CheckpointFileItem)[]> {
+        if (!element) {
+            return Promise.resolve(
+                this.checkpointManager.getCheckpoints().map(checkpoint => new CheckpointItem(checkpoint))
+            );
+        }
+
+        if (element instanceof CheckpointItem) {
+            return Promise.resolve(this.getChangedFileItems(element.checkpoint));
+        }
+
+        return Promise.resolve([]);
+    }
+
+    /**
+     * 获取检查点中与当前工作区不同的文件
+     */
+    getChangedFileItems(checkpoint: Checkpoint): CheckpointFileItem[] {
+        const items: CheckpointFileItem[] = [];
+        for (const file of checkpoint.files) {
+            const status = this.checkpointManager.getFileStatus(file);
+            if (status !== 'unchanged') {
+                items.push(new CheckpointFileItem(checkpoint, file, status));
+            }
+        }
+
+        return items.sort((a, b) => a.file.filePath.localeCompare(b.file.filePath));
+    }
+}
+
+/**
+ * 检查点视图管理器
+ */
+export class CheckpointViewManager {
+    private checkpointView: vscode.TreeView<CheckpointItem | CheckpointFileItem>;
+    private checkpointViewProvider: CheckpointViewProvider;
+    private checkpointManager: CheckpointManager;
+
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.checkpointManager = new CheckpointManager(historyManager);
+        this.checkpointViewProvider = new CheckpointViewProvider(this.checkpointManager);
+
+        // 注册树视图，支持多选以便恢复部分文件
+        this.checkpointView = vscode.window.createTreeView('filelocalhistoryCheckpointView', {
+            treeDataProvider: this.checkpointViewProvider,
+            showCollapseAll: true,
+            canSelectMany: true
+        });
+
+        // 添加到订阅列表
+        context.subscriptions.push(this.checkpointView);
+
+        // 工作区文件夹变化时重新筛选属于当前工作区的检查点
+        context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this.checkpointViewProvider.refresh();
+        }));
+
+        // 注册命令
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 创建项目检查点
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.createCheckpoint', async () => {
+                if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+                    vscode.window.showErrorMessage('没有打开的工作区');
+                    return;
+                }
+
+                const name = await vscode.window.showInputBox({
+                    prompt: '为检查点命名，将为工作区中所有被跟踪的文件创建快照',
+                    placeHolder: '例如：批量替换之前'
+                });
+
+                if (!name) {
+                    return;
+                }
+
+                // 检查点记录的是磁盘上的内容，先处理未保存的修改
+                if (vscode.workspace.textDocuments.some(doc => doc.isDirty)) {
+                    const choice = await vscode.window.showWarningMessage(
+                        '有未保存的修改',
+                        { modal: true, detail: '检查点只记录磁盘上的文件内容。' },
+                        '全部保存',
+                        '忽略未保存的修改'
+                    );
+
+                    if (!choice) {
+                        return;
+                    }
+
+                    if (choice === '全部保存') {
+                        await vscode.workspace.saveAll(false);
+                    }
+                }
+
+                const checkpoint = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: `正在创建检查点 "${name}"`,
+                    cancellable: true
+                }, (progress, token) => this.checkpointManager.createCheckpoint(name, progress, token));
+
+                if (!checkpoint) {
+                    vscode.window.showInformationMessage('已取消创建检查点');
+                    return;
+                }
+
+                vscode.window.showInformationMessage(`已创建检查点 "${name}"，共 ${checkpoint.files.length} 个文件`);
+                this.checkpointViewProvider.refresh();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+
+        // 刷新检查点视图
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.refreshCheckpoints', () => {
+                this.checkpointViewProvider.refresh();
+            })
+        );
+
+        // 比较检查点中的文件与当前版本
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.compareCheckpointFile', async (item: CheckpointFileItem) => {
+                const entry = this.checkpointManager.getEntry(item.file);
+                if (!entry) {
+                    vscode.window.showErrorMessage(`${path.basename(item.file.filePath)} 在检查点中的快照已被删除`);
+                    return;
+                }
+
+                // 文件已被删除时直接打开快照
+                if (item.status === 'deleted') {
+                    await CompareView.open(entry);
+                    return;
+                }
+
+                await CompareView.compare(
+                    this.historyManager,
+                    entry,
+                    item.file.filePath,
+                    `${path.basename(item.file.filePath)} (${item.checkpoint.name}) ↔ 当前版本`
+                );
+            })
+        );
+
+        // 恢复整个检查点，可选择要恢复的文件
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.restoreCheckpoint', async (item: CheckpointItem) => {
+                const changedItems = this.checkpointViewProvider.getChangedFileItems(item.checkpoint);
+                if (changedItems.length === 0) {
+                    vscode.window.showInformationMessage(`当前工作区与检查点 "${item.checkpoint.name}" 一致`);
+                    return;
+                }
+
+                const picks = await vscode.window.showQuickPick(
+                    changedItems.map(fileItem => ({
+                        label: fileItem.label as string,
+                        description: fileItem.description as string,
+                        picked: true,
+                        file: fileItem.file
+                    })),
+                    {
+                        canPickMany: true,
+                        placeHolder: `选择要恢复到检查点 "${item.checkpoint.name}" 的文件`
+                    }
+                );
+
+                if (!picks || picks.length === 0) {
+                    return;
+                }
+
+                await this.restoreFiles(item.checkpoint, picks.map(pick => pick.file));
+            })
+        );
+
+        // 恢复选中的文件，支持多选
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.restoreCheckpointFile', async (item: CheckpointFileItem, selectedItems?: (CheckpointItem | CheckpointFileItem)[]) => {
+                const fileItems = (selectedItems || [item])
+                    .filter((selected): selected is CheckpointFileItem => selected instanceof CheckpointFileItem);
+
+                if (fileItems.length === 0) {
+                    return;
+                }
+
+                await this.restoreFiles(fileItems[0].checkpoint, fileItems.map(fileItem => fileItem.file));
+            })
+        );
+
+        // 删除检查点
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.deleteCheckpoint', async (item: CheckpointItem) => {
+                const choice = await vscode.window.showWarningMessage(
+                    `确定要删除检查点 "${item.checkpoint.name}" 吗？`,
+                    { modal: true, detail: '检查点中的快照不会立即删除，之后将按保留策略正常清理。' },
+                    '删除'
+                );
+
+                if (choice !== '删除') {
+                    return;
+                }
+
+                await this.checkpointManager.deleteCheckpoint(item.checkpoint);
+                this.checkpointViewProvider.refresh();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+    }
+
+    /**
+     * 将文件恢复到检查点中的版本，恢复前处理未保存的修改
+     */
+    private async restoreFiles(checkpoint: Checkpoint, files: CheckpointFile[]): Promise<void> {
+        const dirtyDocuments = vscode.workspace.textDocuments.filter(doc =>
+            doc.isDirty && files.some(file => file.filePath === doc.uri.fsPath)
+        );
+
+        if (dirtyDocuments.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `${dirtyDocuments.length} 个要恢复的文件有未保存的修改`,
+                {
+                    modal: true,
+                    detail: '选择“保存后恢复”会先保存这些修改并记录到历史中；选择“放弃修改并恢复”会将这些修改保存为草稿，之后仍可从历史记录中找回。'
+                },
+                '保存后恢复',
+                '放弃修改并恢复'
+            );
+
+            if (!choice) {
+                return;
+            }
+
+            if (choice === '保存后恢复') {
+                for (const document of dirtyDocuments) {
+                    await document.save();
+                }
+            }
+        }
+
+        const failed = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `正在恢复到检查点 "${checkpoint.name}"`
+        }, () => this.checkpointManager.restoreFiles(files));
+
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(
+                `${failed.length} 个文件恢复失败: ${failed.map(file => path.basename(file.filePath)).join(', ')}`
+            );
+        } else {
+            vscode.window.showInformationMessage(`已将 ${files.length} 个文件恢复到检查点 "${checkpoint.name}"`);
+        }
+
+        this.checkpointViewProvider.refresh();
+        vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+    }
+}
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { HistoryContentProvider } from './historyContentProvider';
+import { BlobStore } from './blobStore';
+import { Utils } from './utils';
+
+/**
+ * 比较的一方：历史快照，或以文件路径表示的当前版本
+ */
+export type CompareTarget = HistoryEntry | string;
+
+/**
+ * 比较面板中一方的内容和信息
+ */
+interface CompareSide {
+    label: string;
+    content: Buffer;
+    modified: Date;
+    mimeType?: string;     // 图片的 MIME 类型，不是图片时为空
+}
+
+/**
+ * 版本比较
+ * 文本内容使用内置的差异编辑器；二进制内容无法逐行比较，
+ * 图片以并排或叠加的方式显示，其他二进制文件比较大小、哈希和修改时间
+ */
+export class CompareView {
+    private static readonly VIEW_TYPE = 'filelocalhistory.binaryCompare';
+
+    /**
+     * 比较两个版本，left 显示在左侧
+     */
+    public static async compare(historyManager: HistoryManager, left: CompareTarget, right: CompareTarget, title: string): Promise<void> {
+        const leftSide = CompareView.loadSide(historyManager, left);
+        const rightSide = CompareView.loadSide(historyManager, right);
+
+        if (leftSide && rightSide && (Utils.isBinaryContent(leftSide.content) || Utils.isBinaryContent(rightSide.content))) {
+            CompareView.showBinaryCompare(leftSide, rightSide, title);
+            return;
+        }
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            CompareView.getUri(left),
+            CompareView.getUri(right),
+            title
+        );
+    }
+
+    /**
+     * 打开单个快照，二进制快照交给编辑器决定如何显示
+     */
+    public static async open(entry: HistoryEntry): Promise<void> {
+        await vscode.commands.executeCommand('vscode.open', HistoryContentProvider.getUri(entry));
+    }
+
+    private static getUri(target: CompareTarget): vscode.Uri {
+        return typeof target === 'string' ? vscode.Uri.file(target) : HistoryContentProvider.getUri(target);
+    }
+
+    /**
+     * 读取比较一方的内容，无法读取时返回 undefined
+     */
+    private static loadSide(historyManager: HistoryManager, target: CompareTarget): CompareSide | undefined {
+        try {
+            let side: CompareSide;
+            if (typeof target === 'string') {
+                side = { label: '当前版本', content: fs.readFileSync(target), modified: fs.statSync(target).mtime };
+            } else {
+                const content = historyManager.getContentByHash(target.contentHash);
+                if (!content) {
+                    return undefined;
+                }
+                side = { label: target.label, content, modified: Utils.getDateFromTimestamp(target.timestamp) };
+            }
+
+            side.mimeType = Utils.getImageMimeType(side.content);
+            return side;
+        } catch (error) {
+            console.error('读取比较内容失败:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 在面板中显示二进制内容的比较
+     */
+    private static showBinaryCompare(left: CompareSide, right: CompareSide, title: string): void {
+        const isImage = !!left.mimeType && !!right.mimeType;
+        const panel = vscode.window.createWebviewPanel(
+            CompareView.VIEW_TYPE,
+            title,
+            vscode.ViewColumn.Active,
+            { enableScripts: isImage }
+        );
+
+        panel.webview.html = isImage
+            ? CompareView.getImageHtml(left, right)
+            : CompareView.getMetadataHtml(left, right);
+    }
+
+    /**
+     * 其他二进制文件只比较基本信息
+     */
+    private static getMetadataHtml(left: CompareSide, right: CompareSide): string {
+        const csp = `default-src 'none'; style-src 'unsafe-inline';`;
+        return CompareView.getPageHtml(csp, CompareView.getMetadataTable(left, right, false));
+    }
+
+    /**
+     * 图片支持并排和叠加两种比较方式，叠加时通过滑块调整上层图片的透明度
+     */
+    private static getImageHtml(left: CompareSide, right: CompareSide): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const csp = `default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+        const leftSrc = `data:${left.mimeType};base64,${left.content.toString('base64')}`;
+        const rightSrc = `data:${right.mimeType};base64,${right.content.toString('base64')}`;
+
+        const body = `
+    <div class="toolbar">
+        <button id="sideBySide" class="active">并排</button>
+        <button id="overlay">叠加</button>
+        <label id="opacityControl" hidden>
+            ${CompareView.escapeHtml(left.label)}
+            <input id="opacity" type="range" min="0" max="100" value="50">
+            ${CompareView.escapeHtml(right.label)}
+        </label>
+    </div>
+    <div id="sideBySideView" class="side-by-side">
+        <figure><img src="${leftSrc}"><figcaption>${CompareView.escapeHtml(left.label)}</figcaption></figure>
+        <figure><img src="${rightSrc}"><figcaption>${CompareView.escapeHtml(right.label)}</figcaption></figure>
+    </div>
+    <div id="overlayView" class="overlay" hidden>
+        <img src="${leftSrc}">
+        <img id="overlayTop" src="${rightSrc}">
+    </div>
+    ${CompareView.getMetadataTable(left, right, true)}
+    <script nonce="${nonce}">
+        const sideBySide = document.getElementById('sideBySide');
+        const overlay = document.getElementById('overlay');
+        const opacity = document.getElementById('opacity');
+
+        function setMode(isOverlay) {
+            sideBySide.classList.toggle('active', !isOverlay);
+            overlay.classList.toggle('active', isOverlay);
+            document.getElementById('sideBySideView').hidden = isOverlay;
+            document.getElementById('overlayView').hidden = !isOverlay;
+            document.getElementById('opacityControl').hidden = !isOverlay;
+        }
+
+        sideBySide.addEventListener('click', () => setMode(false));
+        overlay.addEventListener('click', () => setMode(true));
+        opacity.addEventListener('input', () => {
+            document.getElementById('overlayTop').style.opacity = opacity.value / 100;
+        });
+
+        // 图片加载后填入尺寸
+        document.querySelectorAll('#sideBySideView img').forEach((image, index) => {
+            const update = () => {
+                document.getElementById('dimensions' + index).textContent = image.naturalWidth + ' × ' + image.naturalHeight;
+            };
+            image.complete ? update() : image.addEventListener('load', update);
+        });
+    </script>`;
+
+        return CompareView.getPageHtml(csp, body);
+    }
+
+    /**
+     * 生成基本信息的比较表格，不同的值会被突出显示
+     */
+    private static getMetadataTable(left: CompareSide, right: CompareSide, withDimensions: boolean): string {
+        const leftHash = BlobStore.hashContent(left.content);
+        const rightHash = BlobStore.hashContent(right.content);
+        const rows: [string, string, string][] = [
+            ['类型', left.mimeType || '二进制文件', right.mimeType || '二进制文件'],
+            ['大小', Utils.formatFileSize(left.content.length), Utils.formatFileSize(right.content.length)],
+            ['SHA-256', leftHash, rightHash],
+            ['修改时间', left.modified.toLocaleString(), right.modified.toLocaleString()]
+        ];
+
+        const rowsHtml = rows.map(([name, leftValue, rightValue]) => {
+            const changed = leftValue !== rightValue ? ' class="changed"' : '';
+            return `<tr${changed}><th>${name}</th><td>${CompareView.escapeHtml(leftValue)}</td><td>${CompareView.escapeHtml(rightValue)}</td></tr>`;
+        });
+
+        if (withDimensions) {
+            rowsHtml.push('<tr><th>尺寸</th><td id="dimensions0"></td><td id="dimensions1"></td></tr>');
+        }
+
+        const summary = leftHash === rightHash ? '两个版本的内容相同' : '两个版本的内容不同';
+        return `
+    <table>
+        <thead><tr><th></th><th>${CompareView.escapeHtml(left.label)}</th><th>${CompareView.escapeHtml(right.label)}</th></tr></thead>
+        <tbody>${rowsHtml.join('')}</tbody>
+    </table>
+    <p class="summary">${summary}</p>`;
+    }
+
+    private static getPageHtml(csp: string, body: string): string {
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); padding: 16px; }
+        .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 16px; }
+        button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; padding: 4px 12px; cursor: pointer; }
+        button.active { color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+        label { display: flex; align-items: center; gap: 8px; }
+        img { max-width: 100%; background: repeating-conic-gradient(#8884 0% 25%, transparent 0% 50%) 0 0 / 16px 16px; }
+        .side-by-side { display: flex; gap: 16px; }
+        .side-by-side figure { flex: 1; margin: 0; text-align: center; }
+        .overlay { display: grid; justify-items: start; }
+        .overlay img { grid-area: 1 / 1; }
+        #overlayTop { opacity: 0.5; }
+        table { border-collapse: collapse; margin-top: 16px; }
+        th, td { text-align: left; padding: 4px 12px; border-bottom: 1px solid var(--vscode-panel-border); }
+        td { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+        tr.changed td { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+        .summary { color: var(--vscode-descriptionForeground); }
+        [hidden] { display: none !important; }
+    </style>
+</head>
+<body>${body}
+</body>
+</html>`;
+    }
+
+    private static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * 两个文本之间的一处差异，行号从 0 开始
+ * 长度为 0 表示在该位置插入或删除
+ */
+export interface LineChange {
+    originalStart: number;    // 原始文本中的起始行
+    originalLength: number;   // 原始文本中被替换的行数
+    modifiedStart: number;    // 修改后文本中的起始行
+    modifiedLength: number;   // 修改后文本中对应的行数
+}
+
+/**
+ * 按行比较文本的工具类
+ */
+export class DiffUtils {
+    /**
+     * 差异过大时放弃精确比较的编辑距离上限，避免占用过多内存
+     */
+    private static readonly MAX_EDIT_DISTANCE = 2000;
+
+    /**
+     * 将文本按行拆分，每行保留原有的换行符，拼接后与原文本完全一致
+     */
+    public static splitLines(text: string): string[] {
+        const lines = text.match(/[^\n]*\n|[^\n]+$/g);
+        return lines ? lines : [];
+    }
+
+    /**
+     * 计算两组文本行之间的差异（Myers 算法）
+     */
+    public static diffLines(original: string[], modified: string[]): LineChange[] {
+        // 跳过相同的开头和结尾，只比较中间部分
+        let prefix = 0;
+        while (prefix < original.length && prefix < modified.length && original[prefix] === modified[prefix]) {
+            prefix++;
+        }
+
+        let suffix = 0;
+        while (suffix < original.length - prefix && suffix < modified.length - prefix &&
+               original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]) {
+            suffix++;
+        }
+
+        const a = this.toLineIds(original.slice(prefix, original.length - suffix), modified.slice(prefix, modified.length - suffix));
+        const n = a.original.length;
+        const m = a.modified.length;
+
+        if (n === 0 && m === 0) {
+            return [];
+        }
+
+        const wholeChange: LineChange[] = [{
+            originalStart: prefix,
+            originalLength: n,
+            modifiedStart: prefix,
+            modifiedLength: m
+        }];
+
+        if (n === 0 || m === 0) {
+            return wholeChange;
+        }
+
+        const trace = this.findShortestEdit(a.original, a.modified);
+        if (!trace) {
+            return wholeChange;
+        }
+
+        return this.backtrack(trace, n, m, prefix);
+    }
+
+    /**
+     * 将文本行映射为数字，加快比较速度
+     */
+    private static toLineIds(original: string[], modified: string[]): { original: number[], modified: number[] } {
+        const ids = new Map<string, number>();
+        const toId = (line: string) => {
+            let id = ids.get(line);
+            if (id === undefined) {
+                id = ids.size;
+                ids.set(line, id);
+            }
+            return id;
+        };
+
+        return {
+            original: original.map(toId),
+            modified: modified.map(toId)
+        };
+    }
+
+    /**
+     * 查找最短编辑路径，返回每一步的状态用于回溯；差异过大时返回 null
+     */
+    private static findShortestEdit(a: number[], b: number[]): Int32Array[] | null {
+        const n = a.length;
+        const m = b.length;
+        const max = Math.min(n + m, this.MAX_EDIT_DISTANCE);
+        const offset = max + 1;
+        const v = new Int32Array(2 * max + 3);
+        const trace: Int32Array[] = [];
+
+        for (let d = 0; d <= max; d++) {
+            trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+            for (let k = -d; k <= d; k += 2) {
+                let x: number;
+                if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                    x = v[offset + k + 1];
+                } else {
+                    x = v[offset + k - 1] + 1;
+                }
+
+                let y = x - k;
+                while (x < n && y < m && a[x] === b[y]) {
+                    x++;
+                    y++;
+                }
+
+                v[offset + k] = x;
+                if (x >= n && y >= m) {
+                    return trace;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * 根据编辑路径还原出差异块
+     */
+    private static backtrack(trace: Int32Array[], n: number, m: number, lineOffset: number): LineChange[] {
+        // 每一步保存的是 k 取值 [-d-1, d+1] 范围内的状态
+        const getX = (d: number, k: number) => trace[d][k + d + 1];
+
+        const changes: LineChange[] = [];
+        let x = n;
+        let y = m;
+
+        const addEdit = (originalLine: number, modifiedLine: number, isDelete: boolean) => {
+            const last = changes[changes.length - 1];
+            const originalStart = lineOffset + originalLine;
+            const modifiedStart = lineOffset + modifiedLine;
+
+            // 与后一个差异块相邻时合并（回溯是从后向前进行的）
+            if (last && last.originalStart === originalStart + (isDelete ? 1 : 0) &&
+                last.modifiedStart === modifiedStart + (isDelete ? 0 : 1)) {
+                last.originalStart = originalStart;
+                last.modifiedStart = modifiedStart;
+                if (isDelete) {
+                    last.originalLength++;
+                } else {
+                    last.modifiedLength++;
+                }
+                return;
+            }
+
+            changes.push({
+                originalStart,
+                originalLength: isDelete ? 1 : 0,
+                modifiedStart,
+                modifiedLength: isDelete ? 0 : 1
+            });
+        };
+
+        for (let d = trace.length - 1; d > 0; d--) {
+            const k = x - y;
+            const prevK = (k === -d || (k !== d && getX(d, k - 1) < getX(d, k + 1))) ? k + 1 : k - 1;
+            const prevX = getX(d, prevK);
+            const prevY = prevX - prevK;
+
+            // 跳过相同的行
+            while (x > prevX && y > prevY) {
+                x--;
+                y--;
+            }
+
+            // 插入或删除了一行
+            addEdit(prevX, prevY, prevK !== k + 1);
+
+            x = prevX;
+            y = prevY;
+        }
+
+        return changes.reverse();
+    }
+}
@@ -0,0 +1,129 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { HistoryManager } from './historyManager';
+import { BlobStore } from './blobStore';
+import { Utils } from './utils';
+
+/**
+ * 草稿监视器，定期或在停止输入后将编辑器中未保存的内容保存为草稿
+ * 打开文件时如果发现比磁盘上的文件更新、且内容不同的草稿，提示用户找回
+ */
+export class DraftWatcher {
+    private disposables: vscode.Disposable[] = [];
+    private timers = new Map<string, NodeJS.Timeout>();
+    private notifiedFiles = new Set<string>();
+
+    constructor(private historyManager: HistoryManager) {
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(event => {
+            this.scheduleDraft(event.document);
+        }));
+
+        // 保存或关闭后不再需要保存草稿
+        this.disposables.push(vscode.workspace.onDidSaveTextDocument(document => {
+            this.cancelDraft(document);
+        }));
+        this.disposables.push(vscode.workspace.onDidCloseTextDocument(document => {
+            this.cancelDraft(document);
+        }));
+
+        // 检查打开的文件是否有可以找回的草稿
+        this.disposables.push(vscode.workspace.onDidOpenTextDocument(document => {
+            this.checkForDraft(document);
+        }));
+        vscode.workspace.textDocuments.forEach(document => this.checkForDraft(document));
+    }
+
+    /**
+     * 文档被修改后安排保存草稿
+     * idle 模式下每次修改都重新计时，interval 模式下计时期间的修改会在到时后一起保存
+     */
+    private scheduleDraft(document: vscode.TextDocument): void {
+        if (document.uri.scheme !== 'file' || !document.isDirty) {
+            return;
+        }
+
+        const filePath = document.uri.fsPath;
+        const config = Utils.getConfiguration(filePath);
+        const mode = config.get<string>('draftMode', 'off');
+        if (mode === 'off' || !config.get<boolean>('enabled', true)) {
+            return;
+        }
+
+        const pending = this.timers.get(filePath);
+        if (pending) {
+            if (mode === 'interval') {
+                return;
+            }
+            clearTimeout(pending);
+        }
+
+        const delay = Math.max(config.get<number>('draftDelaySeconds', 30), 1) * 1000;
+        this.timers.set(filePath, setTimeout(() => {
+            this.timers.delete(filePath);
+            this.saveDraft(document);
+        }, delay));
+    }
+
+    /**
+     * 保存文档当前的内容为草稿
+     */
+    private async saveDraft(document: vscode.TextDocument): Promise<void> {
+        if (document.isClosed || !document.isDirty) {
+            return;
+        }
+
+        const entry = await this.historyManager.saveDraft(document.uri.fsPath, document.getText());
+        if (entry) {
+            vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+        }
+    }
+
+    private cancelDraft(document: vscode.TextDocument): void {
+        const pending = this.timers.get(document.uri.fsPath);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(document.uri.fsPath);
+        }
+    }
+
+    /**
+     * 文件最近一次的历史记录是草稿、比磁盘上的文件更新且与编辑器中的内容不同时，
+     * 说明上次的修改没有保存，提示用户比较或恢复，每个文件只提示一次
+     */
+    private checkForDraft(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        if (document.uri.scheme !== 'file' || this.notifiedFiles.has(filePath) || !fs.existsSync(filePath)) {
+            return;
+        }
+
+        const [latestEntry] = this.historyManager.getHistoryEntriesForFile(filePath);
+        if (!latestEntry?.draft ||
+            Utils.getDateFromTimestamp(latestEntry.timestamp) <= fs.statSync(filePath).mtime ||
+            latestEntry.contentHash === BlobStore.hashContent(Buffer.from(document.getText(), 'utf8'))) {
+            return;
+        }
+
+        this.notifiedFiles.add(filePath);
+        vscode.window.showInformationMessage(
+            `${path.basename(filePath)} 有一份未保存的草稿 (${latestEntry.label})`,
+            '比较',
+            '恢复'
+        ).then(choice => {
+            if (choice === '比较') {
+                vscode.commands.executeCommand('filelocalhistory.compareWithCurrent', latestEntry);
+            } else if (choice === '恢复') {
+                vscode.commands.executeCommand('filelocalhistory.restoreVersion', latestEntry);
+            }
+        });
+    }
+
+    /**
+     * 清理资源
+     */
+    public dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
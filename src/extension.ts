@@ -3,8 +3,17 @@
 import * as vscode from 'vscode';
 import { HistoryManager } from './historyManager';
 import { FileWatcher } from './fileWatcher';
+import { DraftWatcher } from './draftWatcher';
 import { HistoryViewManager } from './historyView';
 import { ProjectHistoryViewManager } from './projectHistoryView';
+import { HistoryContentProvider } from './historyContentProvider';
+import { CheckpointViewManager } from './checkpointView';
+import { HistorySearchManager } from './historySearch';
+import { HistoryExportManager } from './historyExport';
+import { PatchManager } from './patchManager';
+import { PartialRestoreManager } from './partialRestore';
+import { LocalBlameManager } from './localBlame';
+import { HistoryDashboardManager } from './historyDashboard';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -27,24 +36,72 @@ export function activate(context: vscode.ExtensionContext) {
 		// 初始化历史记录管理器
 		const historyManager = new HistoryManager(context);
 
+		// 注册只读的历史快照文件系统，用于打开还原后的快照
+		context.subscriptions.push(
+			vscode.workspace.registerFileSystemProvider(
+				HistoryContentProvider.SCHEME,
+				new HistoryContentProvider(historyManager),
+				{ isReadonly: true, isCaseSensitive: true }
+			)
+		);
+
 		// 初始化文件监视器
 		const fileWatcher = new FileWatcher(historyManager);
 		context.subscriptions.push(fileWatcher);
 
+		// 初始化草稿监视器，保存编辑器中未保存的内容
+		const draftWatcher = new DraftWatcher(historyManager);
+		context.subscriptions.push(draftWatcher);
+
 		// 初始化历史记录视图
 		const historyViewManager = new HistoryViewManager(context, historyManager);
 		
 		// 初始化项目历史记录视图
 		const projectHistoryViewManager = new ProjectHistoryViewManager(context, historyManager);
 
-		// 监听文件保存事件，更新项目历史视图
+		// 初始化检查点视图
+		const checkpointViewManager = new CheckpointViewManager(context, historyManager);
+
+		// 初始化历史内容搜索
+		const historySearchManager = new HistorySearchManager(context, historyManager);
+
+		// 初始化历史记录导出和导入
+		const historyExportManager = new HistoryExportManager(context, historyManager);
+
+		// 初始化补丁的生成和应用
+		const patchManager = new PatchManager(context, historyManager);
+
+		// 初始化部分恢复
+		const partialRestoreManager = new PartialRestoreManager(context, historyManager);
+
+		// 初始化本地历史追溯
+		const localBlameManager = new LocalBlameManager(context, historyManager);
+
+		// 初始化活动统计面板
+		const historyDashboardManager = new HistoryDashboardManager(context, historyManager);
+
+		// 监听文件保存事件，更新项目历史视图和检查点视图
+		let refreshTimer: NodeJS.Timeout | undefined;
 		const onFileSaved = vscode.workspace.onDidSaveTextDocument(() => {
-			// 使用setTimeout避免频繁刷新
-			setTimeout(() => {
+			// 连续保存时只在最后一次保存后刷新一次
+			if (refreshTimer) {
+				clearTimeout(refreshTimer);
+			}
+			refreshTimer = setTimeout(() => {
+				refreshTimer = undefined;
 				vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+				vscode.commands.executeCommand('filelocalhistory.refreshCheckpoints');
 			}, 1000);
 		});
-		context.subscriptions.push(onFileSaved);
+		context.subscriptions.push(
+			onFileSaved,
+			{ dispose: () => refreshTimer && clearTimeout(refreshTimer) }
+		);
+
+		// 文件删除后更新项目历史视图中的已删除文件
+		context.subscriptions.push(vscode.workspace.onDidDeleteFiles(() => {
+			vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+		}));
 
 		// 注册状态栏按钮
 		const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
@@ -68,6 +125,16 @@ export function activate(context: vscode.ExtensionContext) {
 						label: "$(history) 项目历史记录",
 						description: "显示整个项目的历史记录",
 						command: "filelocalhistory.showProjectHistory"
+					},
+					{
+						label: "$(search) 搜索历史记录内容",
+						description: "在所有历史快照中搜索文本或正则表达式",
+						command: "filelocalhistory.searchHistoryContent"
+					},
+					{
+						label: "$(git-commit) 自上次提交以来的修改",
+						description: "只显示在当前提交之后产生的本地修改",
+						command: "filelocalhistory.showEditsSinceLastCommit"
 					}
 				];
 				
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { HistoryManager } from './historyManager';
+import { HistoryManager, SaveHistoryOptions } from './historyManager';
 import { Utils } from './utils';
 
 /**
@@ -9,9 +9,12 @@ import { Utils } from './utils';
  */
 export class FileWatcher {
     private watcher: vscode.FileSystemWatcher | undefined;
-    private savingInProgress = false;
+    private disposables: vscode.Disposable[] = [];
+    private savingFiles = new Set<string>();
     private lastSaveTimeMap = new Map<string, number>();
+    private editorSaveTimeMap = new Map<string, number>();
     private readonly debounceTime = 1000; // 1秒的防抖时间
+    private readonly editorSaveWindow = 2000; // 编辑器保存后这段时间内的文件变更视为由保存引起
 
     constructor(private historyManager: HistoryManager) {
         this.setupFileWatcher();
@@ -21,7 +24,10 @@ export class FileWatcher {
      * 设置文件监视器
      */
     private setupFileWatcher(): void {
-        // 监视所有文件的保存事件
+        // 监视所有文件的保存事件，记录保存时间以便区分由保存引起的文件变更
+        this.disposables.push(vscode.workspace.onWillSaveTextDocument((event) => {
+            this.editorSaveTimeMap.set(event.document.fileName, Date.now());
+        }));
         vscode.workspace.onDidSaveTextDocument((document) => {
             this.handleFileSaved(document.fileName);
         });
@@ -29,12 +35,24 @@ export class FileWatcher {
         // 监视所有文件的更改事件
         this.watcher = vscode.workspace.createFileSystemWatcher('**/*');
         this.watcher.onDidChange((uri) => {
-            // 非文本文件的变更也通过这个事件处理
-            if (!this.isTextDocument(uri.fsPath)) {
-                this.handleFileSaved(uri.fsPath);
-            }
+            this.handleFileChanged(uri.fsPath);
         });
 
+        // 文件被删除前保存最后一次快照，以便之后从历史记录中恢复
+        this.disposables.push(vscode.workspace.onWillDeleteFiles((event) => {
+            event.waitUntil(this.handleFilesWillDelete(event.files));
+        }));
+
+        // 文件或文件夹被重命名、移动后，历史记录随之转移
+        this.disposables.push(vscode.workspace.onDidRenameFiles((event) => {
+            for (const file of event.files) {
+                if (file.oldUri.scheme === 'file' && file.newUri.scheme === 'file') {
+                    this.historyManager.moveHistory(file.oldUri.fsPath, file.newUri.fsPath);
+                }
+            }
+            vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+        }));
+
         // 处理初始打开的文档
         if (vscode.window.activeTextEditor) {
             const document = vscode.window.activeTextEditor.document;
@@ -47,12 +65,13 @@ export class FileWatcher {
     /**
      * 处理文件保存事件
      */
-    private handleFileSaved(filePath: string): void {
-        if (this.savingInProgress) {
+    private handleFileSaved(filePath: string, options: SaveHistoryOptions = {}): void {
+        // 切换分支时会同时改写多个文件，只跳过正在保存的同一文件
+        if (this.savingFiles.has(filePath)) {
             return;
         }
 
-        const config = vscode.workspace.getConfiguration('filelocalhistory');
+        const config = Utils.getConfiguration(filePath);
         if (!config.get<boolean>('enabled', true)) {
             return;
         }
@@ -70,37 +89,74 @@ export class FileWatcher {
         }
 
         this.lastSaveTimeMap.set(filePath, now);
-        this.savingInProgress = true;
+        this.savingFiles.add(filePath);
 
-        this.historyManager.saveHistory(filePath)
+        this.historyManager.saveHistory(filePath, options)
             .finally(() => {
-                this.savingInProgress = false;
+                this.savingFiles.delete(filePath);
             });
     }
 
     /**
-     * 判断是否为文本文档
+     * 处理不是由编辑器保存引起的文件变更
+     * 二进制文件没有保存事件，每次变更都保存快照；文本文件只在 HEAD 离开上次快照时的分支后保存，
+     * 即记录切换分支等 git 操作对文件的改写
+     */
+    private handleFileChanged(filePath: string): void {
+        const savedAt = this.editorSaveTimeMap.get(filePath);
+        if (savedAt !== undefined && Date.now() - savedAt < this.editorSaveWindow) {
+            return;
+        }
+
+        // 先检查排除规则，避免为被排除的文件读取内容判断是否为二进制文件
+        if (Utils.shouldExcludeFile(filePath)) {
+            return;
+        }
+
+        if (Utils.isBinaryFile(filePath)) {
+            if (Utils.getConfiguration(filePath).get<boolean>('trackBinaryFiles', true)) {
+                this.handleFileSaved(filePath, { fromFileSystem: true });
+            }
+        } else if (this.historyManager.isHeadChangedSinceSnapshot(filePath)) {
+            this.handleFileSaved(filePath, { fromFileSystem: true });
+        }
+    }
+
+    /**
+     * 处理文件删除事件，删除文件夹时为其中的所有文件保存快照
      */
-    private isTextDocument(filePath: string): boolean {
+    private async handleFilesWillDelete(uris: readonly vscode.Uri[]): Promise<void> {
+        const filePaths: string[] = [];
+        for (const uri of uris) {
+            if (uri.scheme === 'file' && Utils.getConfiguration(uri.fsPath).get<boolean>('enabled', true)) {
+                this.collectFiles(uri.fsPath, filePaths);
+            }
+        }
+
+        for (const filePath of filePaths) {
+            await this.historyManager.saveHistory(filePath);
+        }
+    }
+
+    /**
+     * 收集路径下的所有文件，跳过被排除的目录
+     */
+    private collectFiles(filePath: string, filePaths: string[]): void {
         try {
-            const editors = vscode.window.visibleTextEditors;
-            for (const editor of editors) {
-                if (editor.document.fileName === filePath) {
-                    return true;
-                }
+            if (Utils.shouldExcludeFile(filePath)) {
+                return;
+            }
+
+            if (!fs.statSync(filePath).isDirectory()) {
+                filePaths.push(filePath);
+                return;
+            }
+
+            for (const child of fs.readdirSync(filePath)) {
+                this.collectFiles(path.join(filePath, child), filePaths);
             }
-            
-            // 检查扩展名，这不是完全可靠的方法，但可以作为辅助判断
-            const ext = path.extname(filePath).toLowerCase();
-            const textExtensions = [
-                '.txt', '.md', '.json', '.js', '.ts', '.jsx', '.tsx', '.html', '.css', '.scss',
-                '.less', '.xml', '.yaml', '.yml', '.c', '.cpp', '.h', '.hpp', '.cs', '.java',
-                '.py', '.rb', '.php', '.go', '.rs', '.swift', '.kt', '.kts', '.sh', '.bat'
-            ];
-            
-            return textExtensions.includes(ext);
         } catch (error) {
-            return false;
+            // 忽略无法读取的文件
         }
     }
 
@@ -111,5 +167,6 @@ export class FileWatcher {
         if (this.watcher) {
             this.watcher.dispose();
         }
+        this.disposables.forEach(disposable => disposable.dispose());
     }
 }
\ No newline at end of file
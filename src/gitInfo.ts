@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 文件所在 git 仓库的 HEAD 信息
+ */
+export interface GitHead {
+    gitDir: string;        // 仓库的 git 目录，工作树中为该工作树自己的目录
+    branch?: string;       // 当前分支，分离头指针时为空
+    commit?: string;       // HEAD 指向的提交，仓库还没有提交时为空
+}
+
+/**
+ * 直接读取 .git 目录获取仓库状态，不依赖 git 扩展或 git 命令
+ */
+export class GitInfo {
+    /**
+     * 获取文件所在仓库的 HEAD 信息，文件不在仓库中时返回 undefined
+     */
+    public static getHead(filePath: string): GitHead | undefined {
+        const gitDir = GitInfo.findGitDir(path.dirname(filePath));
+        if (!gitDir) {
+            return undefined;
+        }
+
+        try {
+            const head = fs.readFileSync(path.join(gitDir, 'HEAD'), 'utf8').trim();
+            const refMatch = head.match(/^ref:\s*(.+)$/);
+            if (!refMatch) {
+                return { gitDir, commit: head };
+            }
+
+            const ref = refMatch[1];
+            return {
+                gitDir,
+                branch: ref.replace(/^refs\/heads\//, ''),
+                commit: GitInfo.resolveRef(gitDir, ref)
+            };
+        } catch (error) {
+            console.error('读取 git 仓库信息失败:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 判断 HEAD 是否已经离开快照时所在的分支，例如切换了分支；分离头指针时检出其他提交也视为离开
+     * 在同一分支上提交只会改变提交，不算离开。快照没有记录 git 信息时（不在仓库中或在记录 git 信息之前保存）无法判断，视为没有变化
+     */
+    public static isHeadChanged(snapshot: { branch?: string, commit?: string }, head: GitHead): boolean {
+        if (!snapshot.branch && !snapshot.commit) {
+            return false;
+        }
+        if (snapshot.branch || head.branch) {
+            return snapshot.branch !== head.branch;
+        }
+        return snapshot.commit !== head.commit;
+    }
+
+    /**
+     * 从目录向上查找 .git，.git 为文件时（工作树、子模块）读取其中指向的 git 目录
+     */
+    private static findGitDir(dir: string): string | undefined {
+        let current = dir;
+        while (true) {
+            const candidate = path.join(current, '.git');
+            try {
+                const stat = fs.statSync(candidate);
+                if (stat.isDirectory()) {
+                    return candidate;
+                }
+
+                const match = fs.readFileSync(candidate, 'utf8').match(/^gitdir:\s*(.+)$/m);
+                if (match) {
+                    return path.resolve(current, match[1].trim());
+                }
+            } catch (error) {
+                // 当前目录没有 .git，继续向上查找
+            }
+
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return undefined;
+            }
+            current = parent;
+        }
+    }
+
+    /**
+     * 工作树的分支引用保存在主仓库的 git 目录中
+     */
+    private static getCommonDir(gitDir: string): string {
+        try {
+            return path.resolve(gitDir, fs.readFileSync(path.join(gitDir, 'commondir'), 'utf8').trim());
+        } catch (error) {
+            return gitDir;
+        }
+    }
+
+    /**
+     * 解析引用指向的提交，先查找单独的引用文件，再查找 packed-refs
+     */
+    private static resolveRef(gitDir: string, ref: string): string | undefined {
+        const commonDir = GitInfo.getCommonDir(gitDir);
+        try {
+            return fs.readFileSync(path.join(commonDir, ref), 'utf8').trim();
+        } catch (error) {
+            // 引用已被打包
+        }
+
+        try {
+            for (const line of fs.readFileSync(path.join(commonDir, 'packed-refs'), 'utf8').split('\n')) {
+                const [commit, name] = line.trim().split(' ');
+                if (name === ref) {
+                    return commit;
+                }
+            }
+        } catch (error) {
+            // 没有 packed-refs
+        }
+
+        return undefined;
+    }
+}
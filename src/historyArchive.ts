@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { Utils } from './utils';
+
+/**
+ * 归档中的一条历史记录
+ */
+export interface ArchiveEntry {
+    folder: string;        // 文件所在工作区文件夹的名称，不在工作区中时为空
+    path: string;          // 相对于工作区文件夹的路径，使用 / 分隔，不在工作区中时为文件名
+    originalPath: string;  // 导出时文件的完整路径
+    timestamp: string;     // 快照时间戳
+    contentHash: string;   // 快照内容的哈希，对应归档中 blobs 目录下的文件
+    size: number;          // 快照内容的字节数
+    note?: string;         // 标签或备注
+    draft?: boolean;       // 是否为未保存的草稿
+    branch?: string;       // 快照时所在的 git 分支
+    commit?: string;       // 快照时 HEAD 指向的提交
+    checkout?: boolean;    // 是否由切换分支等 git 操作产生
+}
+
+/**
+ * 归档清单
+ */
+export interface ArchiveManifest {
+    version: number;
+    createdAt: string;     // 导出时间，ISO 格式
+    entries: ArchiveEntry[];
+}
+
+/**
+ * 读取归档的结果
+ */
+export interface ArchiveContents {
+    manifest: ArchiveManifest;
+    hashes: Set<string>;   // 归档中包含的快照内容的哈希
+}
+
+/**
+ * 历史记录归档
+ * 使用 tar.gz 格式，包含 manifest.json 清单和 blobs 目录下以哈希命名的快照内容，
+ * 可以直接用常见的解压工具查看，方便附在问题报告中
+ */
+export class HistoryArchive {
+    public static readonly VERSION = 1;
+    private static readonly MANIFEST_NAME = 'manifest.json';
+    private static readonly BLOBS_DIR = 'blobs/';
+    private static readonly BLOCK_SIZE = 512;
+
+    /**
+     * 写入归档，快照内容逐个读取并以流的方式压缩，避免一次性占用大量内存
+     * 返回写入的快照内容数量
+     */
+    public static async write(archivePath: string, manifest: ArchiveManifest, readContent: (hash: string) => Buffer | null): Promise<number> {
+        const gzip = zlib.createGzip();
+        const output = fs.createWriteStream(archivePath);
+        const finished = new Promise<void>((resolve, reject) => {
+            output.on('finish', resolve);
+            output.on('error', reject);
+            gzip.on('error', reject);
+        });
+        gzip.pipe(output);
+
+        const writeChunk = async (chunk: Buffer) => {
+            if (!gzip.write(chunk)) {
+                await new Promise(resolve => gzip.once('drain', resolve));
+            }
+        };
+        const writeFile = async (name: string, data: Buffer) => {
+            await writeChunk(HistoryArchive.createHeader(name, data.length));
+            await writeChunk(data);
+            await writeChunk(Buffer.alloc(HistoryArchive.getPadding(data.length)));
+        };
+
+        await writeFile(HistoryArchive.MANIFEST_NAME, Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'));
+
+        let written = 0;
+        for (const hash of new Set(manifest.entries.map(entry => entry.contentHash))) {
+            const content = readContent(hash);
+            if (content) {
+                await writeFile(HistoryArchive.BLOBS_DIR + hash, content);
+                written++;
+            }
+        }
+
+        // tar 以两个空块结尾
+        await writeChunk(Buffer.alloc(HistoryArchive.BLOCK_SIZE * 2));
+        gzip.end();
+        await finished;
+
+        return written;
+    }
+
+    /**
+     * 以流的方式读取归档，返回清单和其中包含的快照内容的哈希
+     * 快照内容读到一份就交给 onContent 处理，不会全部留在内存中；没有 onContent 时跳过快照内容，只记录其哈希
+     */
+    public static async read(archivePath: string, onContent?: (hash: string, content: Buffer) => void): Promise<ArchiveContents> {
+        const hashes = new Set<string>();
+        let manifest: ArchiveManifest | undefined;
+
+        await pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), async (source: AsyncIterable<Buffer>) => {
+            let pending = Buffer.alloc(0);
+            let file: { name: string, size: number, chunks?: Buffer[] } | undefined;
+            let remaining = 0;     // 当前文件还未读取的字节数，包括补齐到整块的填充
+            let finished = false;
+
+            for await (const chunk of source) {
+                pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+
+                while (!finished) {
+                    if (!file) {
+                        if (pending.length < HistoryArchive.BLOCK_SIZE) {
+                            break;
+                        }
+
+                        const header = pending.subarray(0, HistoryArchive.BLOCK_SIZE);
+                        pending = pending.subarray(HistoryArchive.BLOCK_SIZE);
+                        const name = HistoryArchive.readString(header, 0, 100);
+                        if (!name) {
+                            // 遇到结尾的空块，忽略之后的内容
+                            finished = true;
+                            break;
+                        }
+
+                        const size = parseInt(HistoryArchive.readString(header, 124, 12), 8) || 0;
+                        const isWanted = name === HistoryArchive.MANIFEST_NAME || (!!onContent && name.startsWith(HistoryArchive.BLOBS_DIR));
+                        file = { name, size, chunks: isWanted ? [] : undefined };
+                        remaining = size + HistoryArchive.getPadding(size);
+                    }
+
+                    // 只保留文件内容，跳过不需要的文件和末尾的填充
+                    const length = Math.min(pending.length, remaining);
+                    const read = file.size + HistoryArchive.getPadding(file.size) - remaining;
+                    file.chunks?.push(pending.subarray(0, Math.max(0, Math.min(length, file.size - read))));
+                    pending = pending.subarray(length);
+                    remaining -= length;
+                    if (remaining > 0) {
+                        break;
+                    }
+
+                    if (file.name === HistoryArchive.MANIFEST_NAME) {
+                        manifest = JSON.parse(Buffer.concat(file.chunks!).toString('utf8'));
+                    } else if (file.name.startsWith(HistoryArchive.BLOBS_DIR)) {
+                        const hash = file.name.substring(HistoryArchive.BLOBS_DIR.length);
+                        hashes.add(hash);
+                        if (onContent) {
+                            onContent(hash, Buffer.concat(file.chunks!));
+                        }
+                    }
+                    file = undefined;
+                }
+            }
+        });
+
+        if (!manifest || !Array.isArray(manifest.entries)) {
+            throw new Error('归档中没有有效的清单');
+        }
+        if (manifest.version > HistoryArchive.VERSION) {
+            throw new Error(`不支持的归档版本: ${manifest.version}`);
+        }
+
+        return { manifest, hashes };
+    }
+
+    /**
+     * 检查清单中的一条记录是否完整、各字段类型是否正确，清单可能被手动修改或损坏
+     */
+    public static isValidEntry(entry: unknown): entry is ArchiveEntry {
+        if (!entry || typeof entry !== 'object') {
+            return false;
+        }
+
+        const fields = entry as Record<string, unknown>;
+        const isOptional = (value: unknown, type: 'string' | 'boolean') => value === undefined || typeof value === type;
+        return typeof fields.folder === 'string' &&
+            typeof fields.path === 'string' && fields.path.length > 0 &&
+            typeof fields.originalPath === 'string' &&
+            typeof fields.timestamp === 'string' && Utils.isValidTimestamp(fields.timestamp) &&
+            typeof fields.contentHash === 'string' && /^[0-9a-f]{64}$/.test(fields.contentHash) &&
+            typeof fields.size === 'number' && fields.size >= 0 &&
+            isOptional(fields.note, 'string') &&
+            isOptional(fields.draft, 'boolean') &&
+            isOptional(fields.branch, 'string') &&
+            isOptional(fields.commit, 'string') &&
+            isOptional(fields.checkout, 'boolean');
+    }
+
+    /**
+     * 生成 ustar 格式的文件头
+     */
+    private static createHeader(name: string, size: number): Buffer {
+        const header = Buffer.alloc(HistoryArchive.BLOCK_SIZE);
+        header.write(name, 0, 100, 'utf8');
+        header.write('0000644\0', 100, 8, 'ascii');                                   // mode
+        header.write('0000000\0', 108, 8, 'ascii');                                   // uid
+        header.write('0000000\0', 116, 8, 'ascii');                                   // gid
+        header.write(size.toString(8).padStart(11, '0') + '\0', 124, 12, 'ascii');
+        header.write(Math.floor(Date.now() / 1000).toString(8).padStart(11, '0') + '\0', 136, 12, 'ascii');
+        header.write('        ', 148, 8, 'ascii');                                    // 计算校验和时按空格处理
+        header.write('0', 156, 1, 'ascii');                                           // 普通文件
+        header.write('ustar\0' + '00', 257, 8, 'ascii');
+
+        let checksum = 0;
+        for (const byte of header) {
+            checksum += byte;
+        }
+        header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+
+        return header;
+    }
+
+    private static readString(buffer: Buffer, start: number, length: number): string {
+        const field = buffer.subarray(start, start + length);
+        const end = field.indexOf(0);
+        return field.subarray(0, end === -1 ? field.length : end).toString('utf8').trim();
+    }
+
+    private static getPadding(size: number): number {
+        return (HistoryArchive.BLOCK_SIZE - size % HistoryArchive.BLOCK_SIZE) % HistoryArchive.BLOCK_SIZE;
+    }
+}
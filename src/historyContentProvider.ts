@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { Utils } from './utils';
+
+/**
+ * 历史快照只读文件系统
+ * 快照以压缩或增量形式存储，需要还原后才能在编辑器和差异视图中打开。
+ * 通过 HistoryManager 读取内容，不直接访问存储目录，存储格式变化时无需修改
+ */
+export class HistoryContentProvider implements vscode.FileSystemProvider {
+    /**
+     * 历史快照使用的 URI scheme
+     */
+    public static readonly SCHEME = 'filelocalhistory';
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this._onDidChangeFile.event;
+
+    constructor(private historyManager: HistoryManager) {}
+
+    /**
+     * 获取历史快照的 URI
+     * 路径以快照时间为目录、原始文件名为文件名，标签页显示原始文件名并据此识别语言模式，
+     * 同一文件的多个快照同时打开时会以时间区分。查询参数为内容哈希和大小，
+     * 不使用历史记录元数据文件的路径，文件被重命名或移动后已打开的快照仍然有效
+     */
+    public static getUri(entry: HistoryEntry): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: HistoryContentProvider.SCHEME,
+            path: `/${entry.timestamp}/${path.basename(entry.recordedPath || entry.filePath)}`,
+            query: new URLSearchParams({ hash: entry.contentHash, size: String(entry.size) }).toString()
+        });
+    }
+
+    /**
+     * 从 URI 中取出快照的时间、内容哈希和大小，URI 无效时返回 undefined
+     */
+    private static parseUri(uri: vscode.Uri): { timestamp: string, contentHash: string, size: number } | undefined {
+        const timestamp = uri.path.split('/')[1];
+        const params = new URLSearchParams(uri.query);
+        const contentHash = params.get('hash') || '';
+        const size = Number(params.get('size'));
+
+        // 哈希会被用作存储中的文件名，需要检查格式
+        if (!timestamp || !Utils.isValidTimestamp(timestamp) || !/^[0-9a-f]{64}$/.test(contentHash) || !Number.isInteger(size)) {
+            return undefined;
+        }
+        return { timestamp, contentHash, size };
+    }
+
+    /**
+     * 快照不会被修改，无需监视
+     */
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {});
+    }
+
+    /**
+     * 获取快照的文件信息，修改时间为快照时间
+     */
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const snapshot = HistoryContentProvider.parseUri(uri);
+        if (!snapshot) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        const time = Utils.getDateFromTimestamp(snapshot.timestamp).getTime();
+        return {
+            type: vscode.FileType.File,
+            ctime: time,
+            mtime: time,
+            size: snapshot.size,
+            permissions: vscode.FilePermission.Readonly
+        };
+    }
+
+    /**
+     * 还原历史快照的内容
+     */
+    readFile(uri: vscode.Uri): Uint8Array {
+        const snapshot = HistoryContentProvider.parseUri(uri);
+        const content = snapshot && this.historyManager.getContentByHash(snapshot.contentHash);
+        if (!content) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        return content;
+    }
+
+    /**
+     * 快照没有目录结构
+     */
+    readDirectory(): [string, vscode.FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    writeFile(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    delete(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    rename(oldUri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(oldUri);
+    }
+}
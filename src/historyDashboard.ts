@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { EntryFilter } from './projectHistoryView';
+import { DiffUtils } from './diffUtils';
+import { Utils } from './utils';
+
+/**
+ * 单个文件的统计
+ */
+interface FileStats {
+    filePath: string;
+    snapshotCount: number;
+    storedSize: number;    // 快照内容在磁盘上占用的字节数，相同内容只计算一次
+}
+
+/**
+ * 工作区历史记录的统计
+ */
+interface DashboardStats {
+    snapshotCount: number;
+    storedSize: number;
+    dailyCounts: Map<string, number>;                              // 按日期（YYYY-MM-DD）统计的快照数
+    dailyChurn: Map<string, { added: number, removed: number }>;   // 按日期统计的增删行数
+    files: FileStats[];
+}
+
+/**
+ * 活动统计面板
+ * 汇总工作区的历史记录：每天的快照数、修改最频繁的文件、每个文件占用的空间和每天修改的行数，
+ * 点击其中的文件或日期时在项目历史记录视图中显示对应的快照
+ */
+export class HistoryDashboardManager {
+    private static readonly VIEW_TYPE = 'filelocalhistory.dashboard';
+    private static readonly HEATMAP_WEEKS = 26;
+    private static readonly CHURN_DAYS = 30;
+    private static readonly TOP_FILES = 15;
+
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 打开活动统计面板，已经打开时刷新统计
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.showDashboard', async () => {
+                if (!this.panel) {
+                    this.panel = vscode.window.createWebviewPanel(
+                        HistoryDashboardManager.VIEW_TYPE,
+                        '历史记录活动统计',
+                        vscode.ViewColumn.Active,
+                        { enableScripts: true }
+                    );
+                    this.panel.onDidDispose(() => {
+                        this.panel = undefined;
+                    });
+                    this.panel.webview.onDidReceiveMessage((message: { filePath?: string, date?: string }) => {
+                        this.showEntries(message);
+                    });
+                } else {
+                    this.panel.reveal();
+                }
+
+                try {
+                    const stats = await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Window,
+                        title: '正在统计历史记录...'
+                    }, async () => this.collectStats());
+
+                    if (this.panel) {
+                        this.panel.webview.html = this.getHtml(stats);
+                    }
+                } catch (error) {
+                    console.error('统计历史记录失败:', error);
+                    vscode.window.showErrorMessage(`统计历史记录失败: ${error}`);
+                }
+            })
+        );
+    }
+
+    /**
+     * 在项目历史记录视图中显示面板中点击的文件或日期的快照
+     */
+    private showEntries(message: { filePath?: string, date?: string }): void {
+        let entryFilter: EntryFilter | undefined;
+        if (message.filePath) {
+            entryFilter = { filePath: message.filePath, label: `文件: ${path.basename(message.filePath)}` };
+        } else if (message.date) {
+            entryFilter = { date: message.date, label: `日期: ${message.date}` };
+        }
+
+        if (entryFilter) {
+            vscode.commands.executeCommand('filelocalhistory.showEntriesInProjectView', entryFilter);
+        }
+    }
+
+    /**
+     * 统计工作区中的历史记录，包括已删除文件的历史记录
+     * 未保存的草稿只计入占用空间，不计入快照数和修改行数
+     */
+    private collectStats(): DashboardStats {
+        const { existing, deleted } = this.historyManager.getEntriesByExistence();
+        const allEntries = [...existing, ...deleted].filter(entry => !vscode.workspace.workspaceFolders?.length || Utils.getWorkspaceFolder(entry.filePath));
+
+        const entriesByFile = new Map<string, HistoryEntry[]>();
+        for (const entry of allEntries) {
+            const entries = entriesByFile.get(entry.filePath) || [];
+            entries.push(entry);
+            entriesByFile.set(entry.filePath, entries);
+        }
+
+        const stats: DashboardStats = {
+            snapshotCount: 0,
+            storedSize: 0,
+            dailyCounts: new Map(),
+            dailyChurn: new Map(),
+            files: []
+        };
+
+        const churnSince = this.getDateKey(-(HistoryDashboardManager.CHURN_DAYS - 1));
+        for (const [filePath, entries] of entriesByFile) {
+            const fileStats: FileStats = { filePath, snapshotCount: 0, storedSize: 0 };
+            const countedHashes = new Set<string>();
+            for (const entry of entries) {
+                if (!countedHashes.has(entry.contentHash)) {
+                    countedHashes.add(entry.contentHash);
+                    fileStats.storedSize += this.historyManager.getStoredSize(entry);
+                }
+                if (!entry.draft) {
+                    const date = entry.timestamp.substring(0, 10);
+                    stats.dailyCounts.set(date, (stats.dailyCounts.get(date) || 0) + 1);
+                    fileStats.snapshotCount++;
+                }
+            }
+
+            const snapshots = entries
+                .filter(entry => !entry.draft)
+                .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+            this.addChurn(snapshots, churnSince, stats.dailyChurn);
+
+            stats.snapshotCount += fileStats.snapshotCount;
+            stats.storedSize += fileStats.storedSize;
+            stats.files.push(fileStats);
+        }
+
+        return stats;
+    }
+
+    /**
+     * 比较相邻的快照，将增删的行数计入较新快照的日期。文件的第一个快照没有可比较的版本，不计入
+     */
+    private addChurn(snapshots: HistoryEntry[], since: string, dailyChurn: Map<string, { added: number, removed: number }>): void {
+        let previousLines: string[] | undefined;
+        for (let i = 0; i < snapshots.length; i++) {
+            const date = snapshots[i].timestamp.substring(0, 10);
+            // 只读取统计范围内需要比较的快照
+            if (date < since && (i + 1 >= snapshots.length || snapshots[i + 1].timestamp.substring(0, 10) < since)) {
+                previousLines = undefined;
+                continue;
+            }
+
+            const content = this.historyManager.getHistoryFileContent(snapshots[i].historyFilePath);
+            const lines = content && !Utils.isBinaryContent(content) ? DiffUtils.splitLines(content.toString('utf8')) : undefined;
+
+            if (previousLines && lines && date >= since) {
+                const churn = dailyChurn.get(date) || { added: 0, removed: 0 };
+                for (const change of DiffUtils.diffLines(previousLines, lines)) {
+                    churn.added += change.modifiedLength;
+                    churn.removed += change.originalLength;
+                }
+                dailyChurn.set(date, churn);
+            }
+            previousLines = lines;
+        }
+    }
+
+    /**
+     * 距今天指定天数的日期，格式与时间戳的日期部分相同
+     */
+    private getDateKey(offsetDays: number, from = new Date()): string {
+        const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offsetDays);
+        return Utils.formatTimestamp(date).substring(0, 10);
+    }
+
+    private getHtml(stats: DashboardStats): string {
+        const nonce = crypto.randomBytes(16).toString('hex');
+        const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+
+        const topByCount = [...stats.files]
+            .filter(file => file.snapshotCount > 0)
+            .sort((a, b) => b.snapshotCount - a.snapshotCount)
+            .slice(0, HistoryDashboardManager.TOP_FILES);
+        const topBySize = [...stats.files]
+            .sort((a, b) => b.storedSize - a.storedSize)
+            .slice(0, HistoryDashboardManager.TOP_FILES);
+
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); padding: 16px; }
+        h2 { font-size: 1.1em; margin: 24px 0 8px; }
+        .summary { color: var(--vscode-descriptionForeground); }
+        [data-file], [data-date] { cursor: pointer; }
+        .heatmap { display: grid; grid-template-rows: repeat(7, 12px); grid-auto-flow: column; grid-auto-columns: 12px; gap: 3px; }
+        .cell { border-radius: 2px; background: var(--vscode-editorWidget-border); }
+        .cell.level-1 { background: var(--vscode-charts-green); opacity: 0.4; }
+        .cell.level-2 { background: var(--vscode-charts-green); opacity: 0.6; }
+        .cell.level-3 { background: var(--vscode-charts-green); opacity: 0.8; }
+        .cell.level-4 { background: var(--vscode-charts-green); }
+        .cell:hover, .bar-row:hover .bar, .churn-day:hover { outline: 1px solid var(--vscode-focusBorder); }
+        .columns { display: flex; flex-wrap: wrap; gap: 32px; }
+        .columns > section { flex: 1; min-width: 300px; }
+        .bar-row { display: grid; grid-template-columns: minmax(0, 2fr) minmax(0, 1fr) 72px; align-items: center; gap: 8px; padding: 2px 0; }
+        .bar-row .name { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .bar-row .bar { height: 10px; background: var(--vscode-charts-blue); min-width: 1px; }
+        .bar-row .value { text-align: right; color: var(--vscode-descriptionForeground); }
+        .churn { display: flex; align-items: flex-end; gap: 4px; height: 120px; }
+        .churn-day { flex: 1; display: flex; flex-direction: column; justify-content: flex-end; height: 100%; }
+        .churn-day .added { background: var(--vscode-charts-green); }
+        .churn-day .removed { background: var(--vscode-charts-red); }
+        .axis { display: flex; justify-content: space-between; color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    </style>
+</head>
+<body>
+    <p class="summary">共 ${stats.snapshotCount} 个快照，${stats.files.length} 个文件，占用 ${Utils.formatFileSize(stats.storedSize)}。点击文件或日期可在项目历史记录中查看对应的快照</p>
+    <h2>每天的快照数（最近 ${HistoryDashboardManager.HEATMAP_WEEKS} 周）</h2>
+    ${this.getHeatmapHtml(stats.dailyCounts)}
+    <div class="columns">
+        <section>
+            <h2>修改最频繁的文件</h2>
+            ${this.getBarListHtml(topByCount, file => file.snapshotCount, file => `${file.snapshotCount} 个快照`)}
+        </section>
+        <section>
+            <h2>占用空间最多的文件</h2>
+            ${this.getBarListHtml(topBySize, file => file.storedSize, file => Utils.formatFileSize(file.storedSize))}
+        </section>
+    </div>
+    <h2>每天修改的行数（最近 ${HistoryDashboardManager.CHURN_DAYS} 天）</h2>
+    ${this.getChurnHtml(stats.dailyChurn)}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const target = event.target.closest('[data-file], [data-date]');
+            if (target) {
+                vscode.postMessage(target.dataset.file ? { filePath: target.dataset.file } : { date: target.dataset.date });
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * 快照数热力图，每列为一周，从周日开始
+     */
+    private getHeatmapHtml(dailyCounts: Map<string, number>): string {
+        const today = new Date();
+        const startOffset = -((HistoryDashboardManager.HEATMAP_WEEKS - 1) * 7 + today.getDay());
+        const max = Math.max(0, ...dailyCounts.values());
+
+        const cells: string[] = [];
+        for (let offset = startOffset; offset <= 0; offset++) {
+            const date = this.getDateKey(offset, today);
+            const count = dailyCounts.get(date) || 0;
+            const level = count === 0 ? 0 : Math.ceil(count / max * 4);
+            cells.push(count > 0
+                ? `<div class="cell level-${level}" data-date="${date}" title="${date}: ${count} 个快照"></div>`
+                : `<div class="cell" title="${date}: 没有快照"></div>`);
+        }
+
+        return `<div class="heatmap">${cells.join('')}</div>`;
+    }
+
+    /**
+     * 文件排行，条形长度相对于第一名
+     */
+    private getBarListHtml(files: FileStats[], getValue: (file: FileStats) => number, formatValue: (file: FileStats) => string): string {
+        if (files.length === 0) {
+            return '<p class="summary">没有历史记录</p>';
+        }
+
+        const max = Math.max(1, getValue(files[0]));
+        return files.map(file => {
+            const displayPath = this.escapeHtml(vscode.workspace.asRelativePath(file.filePath));
+            const width = (getValue(file) / max * 100).toFixed(1);
+            return `<div class="bar-row" data-file="${this.escapeHtml(file.filePath)}" title="${displayPath}">` +
+                `<span class="name">${displayPath}</span><span class="bar" style="width: ${width}%"></span>` +
+                `<span class="value">${formatValue(file)}</span></div>`;
+        }).join('');
+    }
+
+    /**
+     * 每天增删行数的柱状图，新增在上、删除在下
+     */
+    private getChurnHtml(dailyChurn: Map<string, { added: number, removed: number }>): string {
+        const days: string[] = [];
+        for (let offset = -(HistoryDashboardManager.CHURN_DAYS - 1); offset <= 0; offset++) {
+            days.push(this.getDateKey(offset));
+        }
+
+        const max = Math.max(1, ...days.map(date => {
+            const churn = dailyChurn.get(date);
+            return churn ? churn.added + churn.removed : 0;
+        }));
+
+        const bars = days.map(date => {
+            const churn = dailyChurn.get(date) || { added: 0, removed: 0 };
+            if (churn.added + churn.removed === 0) {
+                return `<div class="churn-day" title="${date}: 没有修改"></div>`;
+            }
+            return `<div class="churn-day" data-date="${date}" title="${date}: +${churn.added} -${churn.removed}">` +
+                `<div class="added" style="height: ${(churn.added / max * 100).toFixed(1)}%"></div>` +
+                `<div class="removed" style="height: ${(churn.removed / max * 100).toFixed(1)}%"></div></div>`;
+        });
+
+        return `<div class="churn">${bars.join('')}</div><div class="axis"><span>${days[0]}</span><span>${days[days.length - 1]}</span></div>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { ArchiveContents, ArchiveEntry, ArchiveManifest, HistoryArchive } from './historyArchive';
+import { Utils } from './utils';
+
+/**
+ * 历史记录导出和导入管理器
+ * 将文件、文件夹或整个项目的历史记录导出为归档，以便在其他机器上导入或附在问题报告中
+ */
+export class HistoryExportManager {
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 导出历史记录，从资源管理器执行时导出选中的文件或文件夹
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.exportHistory', async (uri?: vscode.Uri) => {
+                const scope = uri ? uri.fsPath : await this.pickExportScope();
+                if (scope === undefined) {
+                    return;
+                }
+
+                const entries = this.getEntriesToExport(scope);
+                if (entries.length === 0) {
+                    vscode.window.showInformationMessage('没有可导出的历史记录');
+                    return;
+                }
+
+                const scopeName = scope ? path.basename(scope) : (vscode.workspace.name || 'project');
+                const defaultName = `${scopeName}-history-${Utils.getFormattedTimestamp()}.tar.gz`;
+                const targetUri = await vscode.window.showSaveDialog({
+                    defaultUri: vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', defaultName)),
+                    filters: { '历史记录归档': ['gz'] },
+                    saveLabel: '导出'
+                });
+
+                if (!targetUri) {
+                    return;
+                }
+
+                try {
+                    await vscode.window.withProgress({
+                        location: vscode.ProgressLocation.Notification,
+                        title: '正在导出历史记录...'
+                    }, () => this.exportEntries(entries, targetUri.fsPath));
+                } catch (error) {
+                    console.error('导出历史记录失败:', error);
+                    vscode.window.showErrorMessage(`导出历史记录失败: ${error}`);
+                    return;
+                }
+
+                const choice = await vscode.window.showInformationMessage(
+                    `已导出 ${entries.length} 条历史记录`,
+                    '在文件管理器中显示'
+                );
+                if (choice) {
+                    vscode.commands.executeCommand('revealFileInOS', targetUri);
+                }
+            })
+        );
+
+        // 导入历史记录归档
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.importHistory', async () => {
+                const [archiveUri] = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { '历史记录归档': ['gz'] },
+                    openLabel: '导入'
+                }) || [];
+
+                if (!archiveUri) {
+                    return;
+                }
+
+                let archive: ArchiveContents;
+                try {
+                    archive = await HistoryArchive.read(archiveUri.fsPath);
+                } catch (error) {
+                    console.error('读取历史记录归档失败:', error);
+                    vscode.window.showErrorMessage(`无法读取历史记录归档: ${error}`);
+                    return;
+                }
+
+                // 导入前检查所有记录，格式无效或缺少快照内容的记录由用户决定是否跳过，避免只导入了一部分
+                const entries = archive.manifest.entries.filter(entry =>
+                    HistoryArchive.isValidEntry(entry) && archive.hashes.has(entry.contentHash)
+                );
+                const invalid = archive.manifest.entries.length - entries.length;
+                if (entries.length === 0) {
+                    vscode.window.showErrorMessage('归档中没有可导入的历史记录');
+                    return;
+                }
+                if (invalid > 0) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `归档中有 ${invalid} 条历史记录格式无效或缺少快照内容`,
+                        { modal: true, detail: '这些记录会被跳过，其余记录正常导入。' },
+                        '导入其余记录'
+                    );
+                    if (choice !== '导入其余记录') {
+                        return;
+                    }
+                }
+
+                const folderMap = await this.mapArchiveFolders(entries);
+                if (!folderMap) {
+                    return;
+                }
+
+                const { imported, skipped } = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: '正在导入历史记录...'
+                }, async () => this.importEntries(archiveUri.fsPath, entries, folderMap));
+
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+                vscode.window.showInformationMessage(
+                    skipped + invalid > 0
+                        ? `已导入 ${imported} 条历史记录，跳过 ${skipped + invalid} 条已存在或无法导入的记录`
+                        : `已导入 ${imported} 条历史记录`
+                );
+            })
+        );
+    }
+
+    /**
+     * 没有指定文件或文件夹时选择导出范围，返回空字符串表示整个项目
+     */
+    private async pickExportScope(): Promise<string | undefined> {
+        const options: (vscode.QuickPickItem & { scope: string })[] = [];
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document.uri.scheme === 'file') {
+            options.push({
+                label: '$(file) 当前文件',
+                description: path.basename(activeEditor.document.uri.fsPath),
+                scope: activeEditor.document.uri.fsPath
+            });
+        }
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            options.push({ label: `$(folder) ${folder.name}`, description: '工作区文件夹', scope: folder.uri.fsPath });
+        }
+        options.push({ label: '$(globe) 整个项目', description: '当前工作区中所有文件的历史记录', scope: '' });
+
+        const selected = await vscode.window.showQuickPick(options, { placeHolder: '选择要导出的历史记录' });
+        return selected?.scope;
+    }
+
+    /**
+     * 获取要导出的历史记录，包括已删除文件的历史记录
+     */
+    private getEntriesToExport(scope: string): HistoryEntry[] {
+        const { existing, deleted } = this.historyManager.getEntriesByExistence();
+        const allEntries = [...existing, ...deleted];
+
+        if (!scope) {
+            // 整个项目，有打开的工作区时只导出工作区中的文件
+            return vscode.workspace.workspaceFolders?.length
+                ? allEntries.filter(entry => Utils.getWorkspaceFolder(entry.filePath) !== undefined)
+                : allEntries;
+        }
+
+        return allEntries.filter(entry => entry.filePath === scope || entry.filePath.startsWith(scope + path.sep));
+    }
+
+    /**
+     * 将历史记录写入归档，路径记录为相对于所在工作区文件夹的路径，以便导入到其他位置
+     */
+    private async exportEntries(entries: HistoryEntry[], archivePath: string): Promise<void> {
+        const historyFileByHash = new Map<string, string>();
+        const archiveEntries: ArchiveEntry[] = entries.map(entry => {
+            historyFileByHash.set(entry.contentHash, entry.historyFilePath);
+
+            const folder = Utils.getWorkspaceFolder(entry.filePath);
+            return {
+                folder: folder ? folder.name : '',
+                path: folder
+                    ? path.relative(folder.uri.fsPath, entry.filePath).split(path.sep).join('/')
+                    : path.basename(entry.filePath),
+                originalPath: entry.filePath,
+                timestamp: entry.timestamp,
+                contentHash: entry.contentHash,
+                size: entry.size,
+                note: entry.note,
+                draft: entry.draft,
+                branch: entry.branch,
+                commit: entry.commit,
+                checkout: entry.checkout
+            };
+        });
+
+        const manifest: ArchiveManifest = {
+            version: HistoryArchive.VERSION,
+            createdAt: new Date().toISOString(),
+            entries: archiveEntries
+        };
+
+        await HistoryArchive.write(archivePath, manifest, hash => {
+            const historyFilePath = historyFileByHash.get(hash);
+            return historyFilePath ? this.historyManager.getHistoryFileContent(historyFilePath) : null;
+        });
+    }
+
+    /**
+     * 确定归档中每个工作区文件夹导入到哪里
+     * 优先使用同名的工作区文件夹，只有一个工作区文件夹时直接使用，否则由用户选择；
+     * 没有打开工作区时使用原来的路径。用户取消时返回 undefined
+     */
+    private async mapArchiveFolders(entries: ArchiveEntry[]): Promise<Map<string, string | undefined> | undefined> {
+        const folderMap = new Map<string, string | undefined>();
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+
+        for (const folderName of new Set(entries.map(entry => entry.folder))) {
+            if (!folderName || workspaceFolders.length === 0) {
+                folderMap.set(folderName, undefined);
+                continue;
+            }
+
+            const sameName = workspaceFolders.find(folder => folder.name === folderName);
+            if (sameName || workspaceFolders.length === 1) {
+                folderMap.set(folderName, (sameName || workspaceFolders[0]).uri.fsPath);
+                continue;
+            }
+
+            const picked = await vscode.window.showWorkspaceFolderPick({
+                placeHolder: `选择导入 ${folderName} 的历史记录的工作区文件夹`
+            });
+            if (!picked) {
+                return undefined;
+            }
+            folderMap.set(folderName, picked.uri.fsPath);
+        }
+
+        return folderMap;
+    }
+
+    /**
+     * 将归档中的历史记录合并到本地存储，已存在的记录会被跳过
+     * 再次读取归档，每读到一份快照内容就导入引用它的记录，不必把所有内容留在内存中
+     */
+    private async importEntries(
+        archivePath: string,
+        entries: ArchiveEntry[],
+        folderMap: Map<string, string | undefined>
+    ): Promise<{ imported: number, skipped: number }> {
+        const entriesByHash = new Map<string, ArchiveEntry[]>();
+        for (const entry of entries) {
+            const sameContent = entriesByHash.get(entry.contentHash) || [];
+            sameContent.push(entry);
+            entriesByHash.set(entry.contentHash, sameContent);
+        }
+
+        let imported = 0;
+        try {
+            await HistoryArchive.read(archivePath, (hash, content) => {
+                for (const entry of entriesByHash.get(hash) || []) {
+                    const folderPath = folderMap.get(entry.folder);
+                    const filePath = folderPath
+                        ? path.join(folderPath, ...entry.path.split('/'))
+                        : entry.originalPath;
+
+                    // 防止归档中的路径指向工作区文件夹之外或不是完整路径
+                    const isValidPath = folderPath ? filePath.startsWith(folderPath + path.sep) : path.isAbsolute(filePath);
+                    const isImported = isValidPath && this.historyManager.importRecord({
+                        filePath,
+                        timestamp: entry.timestamp,
+                        contentHash: entry.contentHash,
+                        size: entry.size,
+                        note: entry.note,
+                        draft: entry.draft,
+                        branch: entry.branch,
+                        commit: entry.commit,
+                        checkout: entry.checkout
+                    }, content);
+
+                    if (isImported) {
+                        imported++;
+                    }
+                }
+            });
+        } catch (error) {
+            console.error('导入历史记录失败:', error);
+        }
+
+        return { imported, skipped: entries.length - imported };
+    }
+}
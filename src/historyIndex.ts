@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryRecord } from './historyManager';
+
+/**
+ * 索引日志中的一条操作
+ * id 为元数据文件相对于历史记录根目录的路径，形如 "<目录>/<文件名>"
+ */
+type IndexOperation =
+    | { op: 'add', id: string, record: HistoryRecord }
+    | { op: 'remove', id: string };
+
+/**
+ * 历史记录索引
+ * 以只追加的 JSON Lines 日志保存在磁盘上，查询时无需逐个读取目录和元数据文件。
+ * 多个窗口共享同一份索引，每次查询前会读取其他窗口追加的内容
+ */
+export class HistoryIndex {
+    /**
+     * 索引文件名
+     */
+    public static readonly FILE_NAME = 'index.jsonl';
+
+    /**
+     * 日志中无效操作超过该数量时进行压缩
+     */
+    private static readonly COMPACT_THRESHOLD = 1000;
+
+    private indexFilePath: string;
+    private records = new Map<string, Map<string, HistoryRecord>>();
+    private recordCount = 0;
+    private journalLines = 0;
+    private loadedSize = 0;
+    private loadedInode = 0;
+
+    constructor(basePath: string) {
+        this.indexFilePath = path.join(basePath, HistoryIndex.FILE_NAME);
+    }
+
+    /**
+     * 从磁盘加载索引，索引文件不存在时返回 false
+     */
+    public load(): boolean {
+        this.reset();
+
+        if (!fs.existsSync(this.indexFilePath)) {
+            return false;
+        }
+
+        this.refresh();
+        this.compactIfNeeded();
+        return true;
+    }
+
+    /**
+     * 读取其他窗口写入的新内容；索引被压缩或重建过时重新加载
+     */
+    public refresh(): void {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(this.indexFilePath);
+        } catch (e) {
+            return;
+        }
+
+        if (stat.ino !== this.loadedInode || stat.size < this.loadedSize) {
+            this.reset();
+            this.loadedInode = stat.ino;
+        }
+
+        if (stat.size === this.loadedSize) {
+            return;
+        }
+
+        const fd = fs.openSync(this.indexFilePath, 'r');
+        try {
+            const buffer = Buffer.alloc(stat.size - this.loadedSize);
+            fs.readSync(fd, buffer, 0, buffer.length, this.loadedSize);
+
+            // 只处理完整的行，写入到一半的行留到下次读取
+            const lastNewline = buffer.lastIndexOf(0x0a);
+            if (lastNewline < 0) {
+                return;
+            }
+
+            for (const line of buffer.subarray(0, lastNewline).toString('utf8').split('\n')) {
+                if (!line.trim()) {
+                    continue;
+                }
+
+                try {
+                    this.apply(JSON.parse(line) as IndexOperation);
+                } catch (e) {
+                    // 忽略损坏的行
+                }
+            }
+
+            this.loadedSize += lastNewline + 1;
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /**
+     * 添加一条历史记录
+     */
+    public add(id: string, record: HistoryRecord): void {
+        this.append({ op: 'add', id, record });
+    }
+
+    /**
+     * 删除一条历史记录
+     */
+    public remove(id: string): void {
+        this.append({ op: 'remove', id });
+    }
+
+    /**
+     * 获取指定目录下的所有历史记录，键为元数据文件名
+     */
+    public getRecordsInDir(dir: string): Map<string, HistoryRecord> {
+        this.refresh();
+        return this.records.get(dir) || new Map();
+    }
+
+    /**
+     * 获取指定的历史记录
+     */
+    public getRecord(id: string): HistoryRecord | undefined {
+        this.refresh();
+        const [dir, file] = HistoryIndex.splitId(id);
+        return this.records.get(dir)?.get(file);
+    }
+
+    /**
+     * 获取所有历史记录，键为记录 id
+     */
+    public getAllRecords(): Map<string, HistoryRecord> {
+        this.refresh();
+
+        const all = new Map<string, HistoryRecord>();
+        for (const [dir, records] of this.records) {
+            for (const [file, record] of records) {
+                all.set(`${dir}/${file}`, record);
+            }
+        }
+        return all;
+    }
+
+    /**
+     * 用给定的历史记录重新生成索引
+     */
+    public rebuild(records: Map<string, HistoryRecord>): void {
+        const lines: string[] = [];
+        for (const [id, record] of records) {
+            lines.push(JSON.stringify({ op: 'add', id, record }));
+        }
+
+        // 先写入临时文件再重命名，其他窗口会根据文件变化重新加载
+        const tempPath = `${this.indexFilePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+        fs.renameSync(tempPath, this.indexFilePath);
+
+        this.reset();
+        this.refresh();
+    }
+
+    /**
+     * 将记录 id 拆分为目录和文件名，工作区存储中的目录可能包含多级
+     */
+    private static splitId(id: string): [string, string] {
+        const separator = id.lastIndexOf('/');
+        return [id.substring(0, separator), id.substring(separator + 1)];
+    }
+
+    /**
+     * 清空内存中的索引
+     */
+    private reset(): void {
+        this.records.clear();
+        this.recordCount = 0;
+        this.journalLines = 0;
+        this.loadedSize = 0;
+        this.loadedInode = 0;
+    }
+
+    /**
+     * 追加一条操作到日志
+     */
+    private append(operation: IndexOperation): void {
+        fs.appendFileSync(this.indexFilePath, JSON.stringify(operation) + '\n');
+        this.refresh();
+        this.compactIfNeeded();
+    }
+
+    /**
+     * 在内存中应用一条操作
+     */
+    private apply(operation: IndexOperation): void {
+        this.journalLines++;
+
+        const [dir, file] = HistoryIndex.splitId(operation.id);
+        let dirRecords = this.records.get(dir);
+
+        if (operation.op === 'add') {
+            if (!dirRecords) {
+                dirRecords = new Map();
+                this.records.set(dir, dirRecords);
+            }
+            if (!dirRecords.has(file)) {
+                this.recordCount++;
+            }
+            dirRecords.set(file, operation.record);
+        } else if (dirRecords?.delete(file)) {
+            this.recordCount--;
+            if (dirRecords.size === 0) {
+                this.records.delete(dir);
+            }
+        }
+    }
+
+    /**
+     * 日志中无效的操作过多时重写索引文件
+     */
+    private compactIfNeeded(): void {
+        if (this.journalLines - this.recordCount < HistoryIndex.COMPACT_THRESHOLD) {
+            return;
+        }
+
+        try {
+            this.rebuild(this.getAllRecords());
+        } catch (error) {
+            console.error('压缩历史记录索引失败:', error);
+        }
+    }
+}
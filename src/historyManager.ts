@@ -2,154 +2,618 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Utils } from './utils';
+import { BlobStore } from './blobStore';
+import { HistoryStore } from './historyStore';
+import { GitInfo } from './gitInfo';
 
 /**
- * 历史记录项对象
+ * 持久化保存的历史记录元数据
  */
-export interface HistoryEntry {
+export interface HistoryRecord {
     filePath: string;      // 原始文件路径
-    historyFilePath: string;  // 历史记录文件路径
     timestamp: string;     // 时间戳
+    contentHash: string;   // 快照内容的哈希
+    size: number;          // 快照内容的字节数
+    note?: string;         // 用户添加的标签或备注
+    recordedPath?: string; // 快照时文件所在的路径，仅在文件被重命名或移动后记录
+    workspace?: string;    // 快照时文件所在的工作区文件夹，即快照来自哪个项目
+    draft?: boolean;       // 是否为未保存的草稿，即编辑器中尚未保存到磁盘的内容
+    branch?: string;       // 快照时所在的 git 分支
+    commit?: string;       // 快照时 HEAD 指向的提交
+    checkout?: boolean;    // 是否由切换分支等 git 操作改写文件产生
+    checkpoints?: string[]; // 引用该快照的检查点 id
+}
+
+/**
+ * 历史记录项对象
+ */
+export interface HistoryEntry extends HistoryRecord {
+    historyFilePath: string;  // 历史记录元数据文件路径
     label: string;         // 显示标签
     description: string;   // 描述
 }
 
+/**
+ * 保存历史记录的选项
+ */
+export interface SaveHistoryOptions {
+    note?: string;         // 快照的标签或备注
+    draft?: boolean;       // 保存为未保存的草稿
+    fromFileSystem?: boolean; // 由文件系统中的变更触发，而不是在编辑器中保存
+    checkpoint?: string;   // 为该检查点创建快照，快照被引用期间不会被自动清理
+}
+
+/**
+ * 分级保留策略中的一级：早于 afterMinutes 分钟的快照，每 intervalMinutes 分钟只保留最新的一个
+ */
+export interface RetentionTier {
+    afterMinutes: number;
+    intervalMinutes: number;
+}
+
+/**
+ * 清理时将被删除的历史记录及删除的原因
+ */
+export interface PruneCandidate {
+    entry: HistoryEntry;
+    reason: string;
+}
+
+/**
+ * 连续以增量形式保存的版本数上限，超过后重新保存完整内容，避免还原旧版本过慢
+ */
+const MAX_DELTA_RUN = 20;
+
+/**
+ * 每个文件保留的草稿数量上限，草稿不占用快照的数量限制
+ */
+const MAX_DRAFTS_PER_FILE = 10;
+
 /**
  * 历史记录管理器
  */
 export class HistoryManager {
-    private historyBasePath: string;
+    private globalStore: HistoryStore;
+    private workspaceStores = new Map<string, HistoryStore>();
+    private oversizedFiles = new Set<string>();
+
+    private _onDidChangeHistory = new vscode.EventEmitter<string>();
+    /**
+     * 文件的历史记录被添加、修改或删除时触发，参数为文件路径
+     */
+    readonly onDidChangeHistory = this._onDidChangeHistory.event;
 
     constructor(private context: vscode.ExtensionContext) {
-        this.historyBasePath = Utils.getHistoryBasePath(context);
-        this.ensureHistoryBaseDir();
+        this.globalStore = new HistoryStore(Utils.getHistoryBasePath(context));
+    }
+
+    /**
+     * 获取全局历史记录的存储路径
+     */
+    public getHistoryBasePath(): string {
+        return this.globalStore.basePath;
+    }
+
+    /**
+     * 获取所有可用的存储：全局存储以及当前工作区文件夹中已有的工作区存储
+     */
+    private getStores(): HistoryStore[] {
+        const stores = [this.globalStore];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const store = this.getWorkspaceStore(folder.uri.fsPath, false);
+            if (store) {
+                stores.push(store);
+            }
+        }
+        return stores;
     }
 
     /**
-     * 确保历史记录根目录存在
+     * 获取工作区文件夹的工作区存储，create 为 false 时存储目录不存在则返回 undefined
      */
-    private ensureHistoryBaseDir(): void {
-        if (!fs.existsSync(this.historyBasePath)) {
-            fs.mkdirSync(this.historyBasePath, { recursive: true });
+    private getWorkspaceStore(folderPath: string, create: boolean): HistoryStore | undefined {
+        let store = this.workspaceStores.get(folderPath);
+        if (!store) {
+            if (!create && !fs.existsSync(HistoryStore.getWorkspaceStorePath(folderPath))) {
+                return undefined;
+            }
+            store = new HistoryStore(HistoryStore.getWorkspaceStorePath(folderPath), folderPath);
+            this.workspaceStores.set(folderPath, store);
         }
+        return store;
     }
 
     /**
-     * 保存文件的历史记录
+     * 获取保存文件新快照所用的存储，由文件所在工作区文件夹的 storageLocation 设置决定
      */
-    public async saveHistory(filePath: string): Promise<void> {
+    private getStoreForFile(filePath: string): HistoryStore {
+        const workspaceFolder = Utils.getWorkspaceFolder(filePath);
+        if (workspaceFolder && Utils.getConfiguration(filePath).get<string>('storageLocation', 'global') === 'workspace') {
+            return this.getWorkspaceStore(workspaceFolder.uri.fsPath, true)!;
+        }
+        return this.globalStore;
+    }
+
+    /**
+     * 获取可能保存了文件历史记录的存储，切换存储位置后两处的历史记录都能看到
+     */
+    private getStoresForFile(filePath: string): HistoryStore[] {
+        const stores = [this.globalStore];
+        const workspaceFolder = Utils.getWorkspaceFolder(filePath);
+        const workspaceStore = workspaceFolder && this.getWorkspaceStore(workspaceFolder.uri.fsPath, false);
+        if (workspaceStore) {
+            stores.push(workspaceStore);
+        }
+        return stores;
+    }
+
+    /**
+     * 获取元数据文件所在的存储
+     */
+    private getStoreForRecord(historyFilePath: string): HistoryStore | undefined {
+        return this.getStores().find(store => store.contains(historyFilePath));
+    }
+
+    /**
+     * 保存文件的历史记录，返回与文件当前内容对应的历史记录
+     * 带标签保存时，即使内容与最近一次快照相同也会记录该标签
+     */
+    public async saveHistory(filePath: string, options: SaveHistoryOptions = {}): Promise<HistoryEntry | undefined> {
         try {
             // 检查文件是否存在
             if (!fs.existsSync(filePath)) {
                 return;
             }
 
-            // 检查是否应该排除该文件
-            if (Utils.shouldExcludeFile(filePath)) {
+            // 检查是否应该排除该文件，存储目录中的文件始终不跟踪
+            if (Utils.shouldExcludeFile(filePath) || this.getStores().some(store => store.contains(filePath))) {
+                return;
+            }
+
+            // 超过大小限制的文件不保存快照，避免读取大文件
+            if (this.isOversized(filePath)) {
                 return;
             }
 
             // 获取文件内容
             const content = fs.readFileSync(filePath);
             
-            // 获取历史记录目录
-            const historyDir = Utils.getHistoryDirForFile(this.historyBasePath, filePath);
+            // 未开启二进制文件跟踪时跳过二进制内容
+            if (!Utils.getConfiguration(filePath).get<boolean>('trackBinaryFiles', true) && Utils.isBinaryContent(content)) {
+                return;
+            }
+            
+            return await this.writeSnapshot(filePath, content, options);
+        } catch (error) {
+            console.error('保存历史记录失败:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * 将编辑器中尚未保存的内容保存为草稿，用于崩溃或误关闭后找回
+     * 同一次编辑中只保留最新的草稿，文件保存后再产生的草稿会另外记录
+     */
+    public async saveDraft(filePath: string, text: string): Promise<HistoryEntry | undefined> {
+        try {
+            if (Utils.shouldExcludeFile(filePath) || this.getStores().some(store => store.contains(filePath))) {
+                return;
+            }
             
-            // 生成历史记录文件名
-            const historyFileName = Utils.getHistoryFileName(filePath);
-            const historyFilePath = path.join(historyDir, historyFileName);
+            const content = Buffer.from(text, 'utf8');
+            const maxSizeMB = Utils.getFileSetting(filePath, 'maxFileSizeMB', 5);
+            if (maxSizeMB > 0 && content.length > maxSizeMB * 1024 * 1024) {
+                return;
+            }
             
-            // 保存历史记录
-            fs.writeFileSync(historyFilePath, content);
+            const latestEntry = this.getLatestEntryForFile(filePath);
+            const entry = await this.writeSnapshot(filePath, content, { draft: true });
             
-            // 创建元数据文件存储原始路径
-            const metaFilePath = historyFilePath + '.meta';
-            fs.writeFileSync(metaFilePath, filePath);
+            // 新草稿取代同一次编辑中的上一份草稿
+            if (entry && latestEntry?.draft && !HistoryManager.isPinned(latestEntry) && entry.historyFilePath !== latestEntry.historyFilePath) {
+                this.removeEntry(latestEntry);
+            }
             
-            // 清理过期的历史记录
-            await this.cleanupHistory(filePath);
+            return entry;
         } catch (error) {
-            console.error('保存历史记录失败:', error);
+            console.error('保存草稿失败:', error);
+            return undefined;
         }
     }
 
     /**
-     * 获取指定文件的所有历史记录
+     * 保存快照内容并记录元数据，返回与该内容对应的历史记录
      */
-    public getHistoryEntriesForFile(filePath: string): HistoryEntry[] {
+    private async writeSnapshot(filePath: string, content: Buffer, options: SaveHistoryOptions): Promise<HistoryEntry | undefined> {
+        // 内容与最近一次快照相同时无需重复保存，文件保存后内容与草稿相同时仍然记录
+        const contentHash = BlobStore.hashContent(content);
+        const latestEntry = this.getLatestEntryForFile(filePath);
+        if (latestEntry && latestEntry.contentHash === contentHash && (options.draft || !latestEntry.draft)) {
+            // 检查点直接引用最近一次快照
+            if (options.checkpoint) {
+                return latestEntry.checkpoints?.includes(options.checkpoint) ? latestEntry :
+                    this.updateRecord(latestEntry, { checkpoints: [...latestEntry.checkpoints || [], options.checkpoint] });
+            }
+            
+            if (!options.note) {
+                return latestEntry;
+            }
+            
+            // 最近一次快照还没有标签时直接为其添加
+            if (!latestEntry.note) {
+                return this.updateNote(latestEntry, options.note);
+            }
+        }
+        
+        // 生成历史记录元数据文件路径，同一秒内已有快照时在时间戳后加上序号，每次保存都单独记录
+        const store = this.getStoreForFile(filePath);
+        const now = Utils.getFormattedTimestamp();
+        let timestamp = now;
+        for (let sequence = 1; fs.existsSync(store.getRecordPath(filePath, timestamp)); sequence++) {
+            timestamp = `${now}-${String(sequence).padStart(3, '0')}`;
+        }
+        const historyFilePath = store.getRecordPath(filePath, timestamp);
+        
+        // 保存快照内容，相同内容只存储一份
+        const isNewContent = !store.blobStore.has(contentHash);
+        store.blobStore.write(content);
+        
+        // 启用增量存储时，将上一个版本改为相对于当前版本的反向增量
+        if (isNewContent && latestEntry && store.contains(latestEntry.historyFilePath) &&
+            this.shouldStoreAsDelta(store, filePath)) {
+            store.blobStore.storeAsDelta(latestEntry.contentHash, contentHash);
+        }
+        
+        // 创建元数据文件记录原始路径和内容哈希，以及当时所在的分支和提交
+        const gitHead = GitInfo.getHead(filePath);
+        const record: HistoryRecord = {
+            filePath,
+            timestamp,
+            contentHash,
+            size: content.length,
+            note: options.note,
+            workspace: Utils.getWorkspaceFolder(filePath)?.uri.fsPath,
+            draft: options.draft || undefined,
+            branch: gitHead?.branch,
+            commit: gitHead?.commit,
+            checkout: (options.fromFileSystem && latestEntry && gitHead && GitInfo.isHeadChanged(latestEntry, gitHead)) || undefined,
+            checkpoints: options.checkpoint ? [options.checkpoint] : undefined
+        };
+        store.writeRecord(historyFilePath, record);
+        this._onDidChangeHistory.fire(filePath);
+        
+        // 草稿的内容已经保存到磁盘，不再需要单独保留
+        if (!options.draft && latestEntry?.draft && !HistoryManager.isPinned(latestEntry) && latestEntry.contentHash === contentHash) {
+            this.removeEntry(latestEntry);
+        }
+        
+        // 清理过期的历史记录
+        await this.cleanupHistory(filePath);
+        this.enforceStorageQuota(store);
+        
+        return this.toEntry(historyFilePath, record);
+    }
+
+    /**
+     * 判断文件最近一次快照之后 HEAD 是否发生了变化，用于识别切换分支等 git 操作对文件的改写
+     */
+    public isHeadChangedSinceSnapshot(filePath: string): boolean {
+        const latestEntry = this.getLatestEntryForFile(filePath);
+        const gitHead = latestEntry && GitInfo.getHead(filePath);
+        return !!latestEntry && !!gitHead && GitInfo.isHeadChanged(latestEntry, gitHead);
+    }
+
+    /**
+     * 设置或清除历史记录的标签，返回更新后的历史记录
+     */
+    public updateNote(entry: HistoryEntry, note: string | undefined): HistoryEntry {
+        return this.updateRecord(entry, { note: note || undefined });
+    }
+
+    /**
+     * 移除检查点对快照的引用，不再被引用的快照按保留策略正常清理
+     */
+    public async releaseCheckpoint(entry: HistoryEntry, checkpointId: string): Promise<void> {
+        if (!entry.checkpoints?.includes(checkpointId)) {
+            return;
+        }
+        
+        const checkpoints = entry.checkpoints.filter(id => id !== checkpointId);
+        this.updateRecord(entry, { checkpoints: checkpoints.length > 0 ? checkpoints : undefined });
+        await this.cleanupHistory(entry.filePath);
+    }
+
+    /**
+     * 带标签或被检查点引用的快照不会被自动清理
+     */
+    private static isPinned(record: HistoryRecord): boolean {
+        return !!record.note || !!record.checkpoints?.length;
+    }
+
+    /**
+     * 修改历史记录的元数据，返回更新后的历史记录
+     */
+    private updateRecord(entry: HistoryEntry, changes: Partial<HistoryRecord>): HistoryEntry {
+        const record: HistoryRecord = {
+            filePath: entry.filePath,
+            timestamp: entry.timestamp,
+            contentHash: entry.contentHash,
+            size: entry.size,
+            note: entry.note,
+            recordedPath: entry.recordedPath,
+            workspace: entry.workspace,
+            draft: entry.draft,
+            branch: entry.branch,
+            commit: entry.commit,
+            checkout: entry.checkout,
+            checkpoints: entry.checkpoints,
+            ...changes
+        };
+        this.getStoreForRecord(entry.historyFilePath)?.writeRecord(entry.historyFilePath, record);
+        this._onDidChangeHistory.fire(entry.filePath);
+        
+        return this.toEntry(entry.historyFilePath, record);
+    }
+
+    /**
+     * 文件或文件夹被重命名、移动后，将其历史记录转移到新路径下，返回转移的记录数量
+     */
+    public moveHistory(oldPath: string, newPath: string): number {
+        let moved = 0;
+        
         try {
-            const historyDir = Utils.getHistoryDirForFile(this.historyBasePath, filePath);
+            for (const store of this.getStores()) {
+                for (const [historyFilePath, record] of store.getAllRecords()) {
+                    let newFilePath: string;
+                    if (record.filePath === oldPath) {
+                        newFilePath = newPath;
+                    } else if (record.filePath.startsWith(oldPath + path.sep)) {
+                        // 文件夹被重命名时，其中的文件保持相对位置
+                        newFilePath = newPath + record.filePath.substring(oldPath.length);
+                    } else {
+                        continue;
+                    }
+                    
+                    // 记录快照时的路径，文件改回原名时无需再记录
+                    const recordedPath = record.recordedPath || record.filePath;
+                    const newRecord: HistoryRecord = {
+                        ...record,
+                        filePath: newFilePath,
+                        recordedPath: recordedPath === newFilePath ? undefined : recordedPath
+                    };
+                    
+                    // 移动到其他工作区文件夹时，历史记录可能需要转移到另一个存储
+                    if (this.transferRecord(store, historyFilePath, newRecord, this.getStoreForFile(newFilePath))) {
+                        this._onDidChangeHistory.fire(record.filePath);
+                        this._onDidChangeHistory.fire(newFilePath);
+                        moved++;
+                    }
+                }
+            }
+        } catch (error) {
+            console.error('转移历史记录失败:', error);
+        }
+        
+        return moved;
+    }
+
+    /**
+     * 将全局存储中工作区文件夹内文件的历史记录迁移到工作区存储，或者反过来，返回迁移的记录数量
+     */
+    public migrateStorage(folderPath: string, toWorkspace: boolean): number {
+        const workspaceStore = this.getWorkspaceStore(folderPath, toWorkspace);
+        if (!workspaceStore) {
+            return 0;
+        }
+        
+        const source = toWorkspace ? this.globalStore : workspaceStore;
+        const target = toWorkspace ? workspaceStore : this.globalStore;
+        let migrated = 0;
+        
+        for (const [historyFilePath, record] of source.getAllRecords()) {
+            if (toWorkspace && !record.filePath.startsWith(folderPath + path.sep)) {
+                continue;
+            }
+            
+            if (this.transferRecord(source, historyFilePath, { ...record, workspace: folderPath }, target)) {
+                this._onDidChangeHistory.fire(record.filePath);
+                migrated++;
+            }
+        }
+        
+        source.collectGarbage();
+        
+        // 工作区存储已全部迁出时删除 .history 目录
+        if (!toWorkspace && workspaceStore.removeIfEmpty()) {
+            this.workspaceStores.delete(folderPath);
+        }
+        
+        return migrated;
+    }
+
+    /**
+     * 将一条历史记录转移到目标存储中新文件路径对应的位置，快照内容按需复制，返回是否成功
+     */
+    private transferRecord(source: HistoryStore, historyFilePath: string, record: HistoryRecord, target: HistoryStore): boolean {
+        const newHistoryFilePath = path.join(target.getHistoryDir(record.filePath), path.basename(historyFilePath));
+        if (newHistoryFilePath === historyFilePath || fs.existsSync(newHistoryFilePath)) {
+            return false;
+        }
+        
+        if (target !== source && !target.blobStore.has(record.contentHash)) {
+            const content = source.blobStore.read(record.contentHash);
+            if (!content) {
+                return false;
+            }
+            target.blobStore.write(content);
+        }
+        
+        target.writeRecord(newHistoryFilePath, record);
+        source.removeRecord(historyFilePath);
+        return true;
+    }
+
+    /**
+     * 导入一条历史记录及其快照内容，保留原来的时间戳
+     * 相同时间已有历史记录时跳过，返回是否导入
+     */
+    public importRecord(record: HistoryRecord, content: Buffer): boolean {
+        try {
+            if (!Utils.isValidTimestamp(record.timestamp)) {
+                console.error('导入历史记录失败: 无效的时间戳', record.timestamp);
+                return false;
+            }
             
-            if (!fs.existsSync(historyDir)) {
-                return [];
+            if (BlobStore.hashContent(content) !== record.contentHash) {
+                console.error('导入历史记录失败: 快照内容与哈希不一致', record.filePath);
+                return false;
             }
             
-            const files = fs.readdirSync(historyDir)
-                .filter(file => !file.endsWith('.meta'))
-                .sort((a, b) => b.localeCompare(a)); // 按时间戳逆序排序
+            const existing = this.getHistoryEntriesForFile(record.filePath);
+            if (existing.some(entry => entry.timestamp === record.timestamp)) {
+                return false;
+            }
             
+            const store = this.getStoreForFile(record.filePath);
+            store.blobStore.write(content);
+            store.writeRecord(store.getRecordPath(record.filePath, record.timestamp), {
+                ...record,
+                workspace: Utils.getWorkspaceFolder(record.filePath)?.uri.fsPath
+            });
+            this._onDidChangeHistory.fire(record.filePath);
+            return true;
+        } catch (error) {
+            console.error('导入历史记录失败:', error);
+            return false;
+        }
+    }
+
+    /**
+     * 查找文件在某个路径下内容为指定哈希的历史记录，用于定位已被转移的记录
+     */
+    public findEntry(filePath: string, contentHash: string): HistoryEntry | null {
+        for (const store of this.getStores()) {
+            for (const [historyFilePath, record] of store.getAllRecords()) {
+                if (record.contentHash === contentHash &&
+                    (record.filePath === filePath || record.recordedPath === filePath)) {
+                    return this.toEntry(historyFilePath, record);
+                }
+            }
+        }
+        
+        return null;
+    }
+
+    /**
+     * 删除指定的历史记录，带标签的历史记录也会被删除
+     */
+    public deleteEntry(entry: HistoryEntry): void {
+        this.removeEntry(entry);
+    }
+
+    /**
+     * 获取指定文件的所有历史记录
+     */
+    public getHistoryEntriesForFile(filePath: string): HistoryEntry[] {
+        try {
             const entries: HistoryEntry[] = [];
-            for (const file of files) {
-                const parseResult = Utils.parseHistoryFileName(file);
-                if (!parseResult) continue;
-                
-                const { timestamp } = parseResult;
-                const historyFilePath = path.join(historyDir, file);
-                
-                entries.push({
-                    filePath,
-                    historyFilePath,
-                    timestamp,
-                    label: Utils.formatTimestampForDisplay(timestamp),
-                    description: path.basename(filePath)
-                });
+            for (const store of this.getStoresForFile(filePath)) {
+                for (const [historyFilePath, record] of store.getRecordsForFile(filePath)) {
+                    entries.push({ ...this.toEntry(historyFilePath, record), description: path.basename(filePath) });
+                }
             }
             
-            return entries;
+            // 按时间戳逆序排序
+            return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
         } catch (error) {
             console.error('获取历史记录失败:', error);
             return [];
         }
     }
 
+    /**
+     * 获取指定文件最近一次的历史记录
+     */
+    private getLatestEntryForFile(filePath: string): HistoryEntry | null {
+        return this.getHistoryEntriesForFile(filePath)[0] || null;
+    }
+
+    /**
+     * 判断是否应将文件的上一个版本保存为增量
+     */
+    private shouldStoreAsDelta(store: HistoryStore, filePath: string): boolean {
+        const config = Utils.getConfiguration(filePath);
+        if (!config.get<boolean>('deltaCompression', false)) {
+            return false;
+        }
+        
+        // 统计上一个版本之前已连续以增量形式保存的版本数
+        const olderRecords = store.getRecordsForFile(filePath).slice(1).map(([, record]) => record);
+        let deltaRun = 0;
+        while (deltaRun < olderRecords.length && store.blobStore.isDelta(olderRecords[deltaRun].contentHash)) {
+            deltaRun++;
+        }
+        
+        return deltaRun < MAX_DELTA_RUN;
+    }
+
+    /**
+     * 获取指定的历史记录，记录已被删除时返回 null
+     */
+    public getEntry(historyFilePath: string): HistoryEntry | null {
+        const record = this.getStoreForRecord(historyFilePath)?.getRecord(historyFilePath);
+        return record ? this.toEntry(historyFilePath, record) : null;
+    }
+
+    /**
+     * 将元数据转换为历史记录项
+     */
+    private toEntry(historyFilePath: string, record: HistoryRecord): HistoryEntry {
+        return {
+            ...record,
+            historyFilePath,
+            label: Utils.formatTimestampForDisplay(record.timestamp),
+            description: this.getDisplayPath(record.filePath)
+        };
+    }
+
+    /**
+     * 从目录重新生成历史记录索引，返回索引的记录数量
+     */
+    public rebuildIndex(): number {
+        let count = 0;
+        
+        for (const store of this.getStores()) {
+            try {
+                count += store.rebuildIndex();
+            } catch (error) {
+                console.error('重建历史记录索引失败:', error);
+            }
+        }
+        
+        return count;
+    }
+
     /**
      * 清理过期的历史记录
      */
     public async cleanupHistory(filePath?: string): Promise<void> {
         try {
-            const config = vscode.workspace.getConfiguration('filelocalhistory');
-            const maxAge = config.get<number>('maxAgeInDays', 7);
-            const maxFiles = config.get<number>('maxHistoryFiles', 30);
-            const cutoffDate = new Date();
-            cutoffDate.setDate(cutoffDate.getDate() - maxAge);
-            
             // 如果指定了文件路径，只清理该文件的历史记录
             if (filePath) {
-                await this.cleanupFileHistory(filePath, cutoffDate, maxFiles);
+                await this.cleanupFileHistory(filePath);
             } 
             // 否则清理所有历史记录
             else {
-                if (!fs.existsSync(this.historyBasePath)) return;
+                for (const originalPath of this.getTrackedFilePaths()) {
+                    await this.cleanupFileHistory(originalPath);
+                }
                 
-                const directories = fs.readdirSync(this.historyBasePath);
-                for (const dir of directories) {
-                    const dirPath = path.join(this.historyBasePath, dir);
-                    if (!fs.statSync(dirPath).isDirectory()) continue;
-                    
-                    const metaFiles = fs.readdirSync(dirPath)
-                        .filter(file => file.endsWith('.meta'));
-                    
-                    // 遍历元数据文件，获取原始文件路径
-                    for (const metaFile of metaFiles) {
-                        try {
-                            const metaFilePath = path.join(dirPath, metaFile);
-                            const originalPath = fs.readFileSync(metaFilePath, 'utf8');
-                            await this.cleanupFileHistory(originalPath, cutoffDate, maxFiles);
-                            break; // 只需要处理一个元数据文件即可
-                        } catch (e) {
-                            continue;
-                        }
-                    }
+                // 清理不再被引用的快照内容
+                this.collectGarbage();
+                
+                for (const store of this.getStores()) {
+                    this.enforceStorageQuota(store);
                 }
             }
         } catch (error) {
@@ -158,41 +622,271 @@ export class HistoryManager {
     }
 
     /**
-     * 清理指定文件的历史记录
+     * 获取清理时将被删除的历史记录，不会删除任何内容。未指定文件时返回所有文件的结果
+     * 不包括超过存储空间限制时删除的记录
      */
-    private async cleanupFileHistory(filePath: string, cutoffDate: Date, maxFiles: number): Promise<void> {
-        const entries = this.getHistoryEntriesForFile(filePath);
+    public getPruneCandidates(filePath?: string): PruneCandidate[] {
+        const filePaths = filePath ? [filePath] : Array.from(this.getTrackedFilePaths());
+        return filePaths.flatMap(originalPath => this.getFilePruneCandidates(originalPath));
+    }
+
+    /**
+     * 获取所有有历史记录的原始文件路径
+     */
+    private getTrackedFilePaths(): Set<string> {
+        const filePaths = new Set<string>();
+        for (const store of this.getStores()) {
+            for (const record of store.getAllRecords().values()) {
+                filePaths.add(record.filePath);
+            }
+        }
+        return filePaths;
+    }
+
+    /**
+     * 清理指定文件的历史记录，使用文件所在工作区文件夹的设置
+     */
+    private async cleanupFileHistory(filePath: string): Promise<void> {
+        for (const candidate of this.getFilePruneCandidates(filePath)) {
+            this.removeEntry(candidate.entry);
+        }
+    }
+
+    /**
+     * 按保留策略找出文件需要删除的历史记录，带标签或被检查点引用的历史记录不会被自动清理
+     * count 策略保留最近的 maxHistoryFiles 个快照，并删除超过 maxAgeInDays 的快照；
+     * tiered 策略按时间分级，越早的快照保留得越稀疏，不使用这两项设置。rules 设置中与文件匹配的规则优先于全局设置
+     * 草稿不参与保留策略，单独保留最近的 MAX_DRAFTS_PER_FILE 份，避免频繁的草稿挤掉保存的快照
+     */
+    private getFilePruneCandidates(filePath: string): PruneCandidate[] {
+        const rule = Utils.getFileRule(filePath);
+        const entries = this.getHistoryEntriesForFile(filePath).filter(entry => !HistoryManager.isPinned(entry));
+        const snapshots = entries.filter(entry => !entry.draft);
+        const candidates = new Map<HistoryEntry, string>();
         
-        // 超过最大文件数量的部分
-        if (entries.length > maxFiles) {
-            const entriesToRemove = entries.slice(maxFiles);
-            for (const entry of entriesToRemove) {
-                try {
-                    fs.unlinkSync(entry.historyFilePath);
-                    fs.unlinkSync(entry.historyFilePath + '.meta');
-                } catch (e) {
-                    // 忽略删除失败的错误
+        // 规则限制了快照数量或天数而没有指定策略时按数量保留
+        const policy = rule && rule.retentionPolicy === undefined &&
+            (rule.maxHistoryFiles !== undefined || rule.maxAgeInDays !== undefined)
+            ? 'count'
+            : Utils.getFileSetting(filePath, 'retentionPolicy', 'count');
+        
+        if (policy === 'tiered') {
+            const tiers = Utils.getConfiguration(filePath).get<RetentionTier[]>('retentionTiers', []);
+            for (const [entry, reason] of HistoryManager.thinByTiers(snapshots, tiers)) {
+                candidates.set(entry, reason);
+            }
+        } else {
+            // 超过最大文件数量的部分
+            const maxFiles = Utils.getFileSetting(filePath, 'maxHistoryFiles', 30);
+            snapshots.slice(maxFiles).forEach(entry => candidates.set(entry, `超过每个文件 ${maxFiles} 个快照的上限`));
+            
+            // 超过最大天数的部分
+            const maxAge = Utils.getFileSetting(filePath, 'maxAgeInDays', 7);
+            const cutoffDate = new Date();
+            cutoffDate.setDate(cutoffDate.getDate() - maxAge);
+            for (const entry of entries) {
+                if (Utils.getDateFromTimestamp(entry.timestamp) < cutoffDate) {
+                    candidates.set(entry, `超过 ${maxAge} 天`);
                 }
             }
         }
         
-        // 超过最大天数的部分
+        entries.filter(entry => entry.draft)
+            .slice(MAX_DRAFTS_PER_FILE)
+            .forEach(entry => candidates.set(entry, `超过每个文件 ${MAX_DRAFTS_PER_FILE} 份草稿的上限`));
+        
+        return Array.from(candidates, ([entry, reason]) => ({ entry, reason }));
+    }
+
+    /**
+     * 按分级保留策略找出多余的快照，entries 按时间从新到旧排列
+     * 快照按所属的级别和按本地时间划分的时间段分组，每组只保留最新的一个；不在任何级别中的快照全部保留
+     */
+    public static thinByTiers<T extends { timestamp: string }>(entries: T[], tiers: RetentionTier[], now = Date.now()): Map<T, string> {
+        const sortedTiers = tiers
+            .filter(tier => tier.afterMinutes >= 0 && tier.intervalMinutes > 0)
+            .sort((a, b) => a.afterMinutes - b.afterMinutes);
+        const keptSlots = new Set<string>();
+        const result = new Map<T, string>();
+        
         for (const entry of entries) {
+            const date = Utils.getDateFromTimestamp(entry.timestamp);
+            const ageMinutes = (now - date.getTime()) / 60000;
+            
+            let tierIndex = -1;
+            sortedTiers.forEach((tier, index) => {
+                if (ageMinutes >= tier.afterMinutes) {
+                    tierIndex = index;
+                }
+            });
+            if (tierIndex < 0) {
+                continue;
+            }
+            
+            // 按本地时间划分，使按天保留时以本地的零点为界
+            const tier = sortedTiers[tierIndex];
+            const localMinutes = date.getTime() / 60000 - date.getTimezoneOffset();
+            const slot = `${tierIndex}:${Math.floor(localMinutes / tier.intervalMinutes)}`;
+            if (keptSlots.has(slot)) {
+                result.set(entry, `${HistoryManager.formatInterval(tier.intervalMinutes)}只保留一个快照`);
+            } else {
+                keptSlots.add(slot);
+            }
+        }
+        
+        return result;
+    }
+
+    /**
+     * 将间隔的分钟数格式化为可读的文字，例如“每小时”、“每 10 分钟”
+     */
+    private static formatInterval(minutes: number): string {
+        if (minutes % (24 * 60) === 0) {
+            return minutes === 24 * 60 ? '每天' : `每 ${minutes / 24 / 60} 天`;
+        }
+        if (minutes % 60 === 0) {
+            return minutes === 60 ? '每小时' : `每 ${minutes / 60} 小时`;
+        }
+        return `每 ${minutes} 分钟`;
+    }
+
+    /**
+     * 判断文件是否超过快照大小限制，每个文件只提示一次
+     */
+    private isOversized(filePath: string): boolean {
+        const maxSizeMB = Utils.getFileSetting(filePath, 'maxFileSizeMB', 5);
+        const size = fs.statSync(filePath).size;
+        if (maxSizeMB <= 0 || size <= maxSizeMB * 1024 * 1024) {
+            return false;
+        }
+        
+        if (!this.oversizedFiles.has(filePath)) {
+            this.oversizedFiles.add(filePath);
+            vscode.window.showInformationMessage(
+                `${path.basename(filePath)} (${(size / 1024 / 1024).toFixed(1)} MB) 超过了 ${maxSizeMB} MB 的快照大小限制，不会保存历史记录`,
+                '修改限制'
+            ).then(choice => {
+                if (choice === '修改限制') {
+                    // 限制来自规则时打开规则设置
+                    const setting = Utils.getFileRule(filePath)?.maxFileSizeMB !== undefined ? 'rules' : 'maxFileSizeMB';
+                    vscode.commands.executeCommand('workbench.action.openSettings', `filelocalhistory.${setting}`);
+                }
+            });
+        }
+        return true;
+    }
+
+    /**
+     * 存储超过总大小限制时，按时间从旧到新删除所有文件的历史记录，直到降到限制的 90% 以下
+     * 带标签或被检查点引用的历史记录和每个文件最近一次的快照不会被删除
+     */
+    private enforceStorageQuota(store: HistoryStore): void {
+        const maxBytes = Utils.getConfiguration(store.root).get<number>('maxStorageSizeMB', 1024) * 1024 * 1024;
+        let size = store.blobStore.getTotalSize();
+        if (maxBytes <= 0 || size <= maxBytes) {
+            return;
+        }
+        
+        const records = Array.from(store.getAllRecords())
+            .sort((a, b) => a[1].timestamp.localeCompare(b[1].timestamp));
+        
+        // 按时间顺序遍历，每个文件最后出现的记录就是最近一次的快照
+        const latest = new Map<string, string>();
+        const refCounts = new Map<string, number>();
+        for (const [historyFilePath, record] of records) {
+            latest.set(record.filePath, historyFilePath);
+            refCounts.set(record.contentHash, (refCounts.get(record.contentHash) || 0) + 1);
+        }
+        
+        let evicted = 0;
+        for (const [historyFilePath, record] of records) {
+            if (size <= maxBytes * 0.9) {
+                break;
+            }
+            if (HistoryManager.isPinned(record) || latest.get(record.filePath) === historyFilePath) {
+                continue;
+            }
+            
+            store.removeRecord(historyFilePath);
+            this._onDidChangeHistory.fire(record.filePath);
+            evicted++;
+            
+            // 内容不再被引用时才会释放空间
+            const refCount = refCounts.get(record.contentHash)! - 1;
+            refCounts.set(record.contentHash, refCount);
+            if (refCount === 0) {
+                size -= store.blobStore.getStoredSize(record.contentHash);
+            }
+        }
+        
+        if (evicted > 0) {
+            store.collectGarbage();
+        }
+    }
+
+    /**
+     * 删除一条历史记录，快照内容在垃圾回收时清理
+     */
+    private removeEntry(entry: HistoryEntry): void {
+        this.getStoreForRecord(entry.historyFilePath)?.removeRecord(entry.historyFilePath);
+        this._onDidChangeHistory.fire(entry.filePath);
+    }
+
+    /**
+     * 删除不再被任何历史记录引用的快照内容
+     */
+    public collectGarbage(): void {
+        for (const store of this.getStores()) {
             try {
-                const { timestamp } = entry;
-                const [datePart, timePart] = timestamp.split('_');
-                const [year, month, day] = datePart.split('-').map(n => parseInt(n, 10));
-                const [hour, minute, second] = timePart.split('-').map(n => parseInt(n, 10));
-                
-                const date = new Date(year, month - 1, day, hour, minute, second);
-                
-                if (date < cutoffDate) {
-                    fs.unlinkSync(entry.historyFilePath);
-                    fs.unlinkSync(entry.historyFilePath + '.meta');
+                store.collectGarbage();
+            } catch (error) {
+                console.error('清理快照内容失败:', error);
+            }
+        }
+    }
+
+    /**
+     * 将文件恢复到指定的历史版本，也可以恢复到其他路径（例如重新创建已删除的文件）
+     * 恢复前会先保存目标文件当前内容的快照，以便撤销本次恢复
+     */
+    public async restoreHistory(entry: HistoryEntry, targetPath: string = entry.filePath): Promise<boolean> {
+        const content = this.getHistoryFileContent(entry.historyFilePath);
+        if (!content) {
+            return false;
+        }
+
+        try {
+            // 无法保存当前内容的快照时（例如文件已超过大小限制）恢复后将无法撤销，需要确认
+            if (fs.existsSync(targetPath) && !await this.saveHistory(targetPath)) {
+                const choice = await vscode.window.showWarningMessage(
+                    `无法保存 ${path.basename(targetPath)} 当前内容的快照，恢复后将无法撤销。是否仍然恢复？`,
+                    { modal: true },
+                    '仍然恢复'
+                );
+                if (choice !== '仍然恢复') {
+                    return false;
                 }
-            } catch (e) {
-                // 忽略删除失败的错误
             }
+
+            // 已打开文档中未保存的修改先保存为草稿，重新加载文档后仍可找回
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === targetPath);
+            if (document?.isDirty) {
+                await this.saveDraft(targetPath, document.getText());
+            }
+
+            // 直接写入快照的原始字节，不经过文本解码，保留原有编码、BOM 和二进制内容
+            fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+            fs.writeFileSync(targetPath, content);
+
+            // 没有未保存修改的文档会自动从磁盘重新加载，有修改的文档需要还原
+            if (document?.isDirty && !document.isClosed) {
+                await vscode.window.showTextDocument(document);
+                await vscode.commands.executeCommand('workbench.action.files.revert');
+            }
+            return true;
+        } catch (error) {
+            console.error('恢复历史记录失败:', error);
+            return false;
         }
     }
 
@@ -200,106 +894,90 @@ export class HistoryManager {
      * 获取历史记录文件的内容
      */
     public getHistoryFileContent(historyFilePath: string): Buffer | null {
-        try {
-            return fs.readFileSync(historyFilePath);
-        } catch (error) {
-            console.error('读取历史记录内容失败:', error);
+        const store = this.getStoreForRecord(historyFilePath);
+        const record = store?.getRecord(historyFilePath);
+        if (!store || !record) {
+            console.error('读取历史记录内容失败:', historyFilePath);
             return null;
         }
+        
+        return store.blobStore.read(record.contentHash);
+    }
+
+    /**
+     * 按内容哈希读取快照内容，不依赖历史记录元数据文件的位置，记录被转移到新路径或其他存储后仍然可以读取
+     * 没有任何存储保存该内容时返回 null
+     */
+    public getContentByHash(contentHash: string): Buffer | null {
+        for (const store of this.getStores()) {
+            if (store.blobStore.has(contentHash)) {
+                return store.blobStore.read(contentHash);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 获取快照内容在磁盘上占用的字节数，压缩或以增量保存后通常小于快照本身的大小
+     */
+    public getStoredSize(entry: HistoryEntry): number {
+        return this.getStoreForRecord(entry.historyFilePath)?.blobStore.getStoredSize(entry.contentHash) || 0;
     }    /**
      * 获取整个项目的历史记录
      */
     public getAllHistoryEntries(): HistoryEntry[] {
+        // 如果原始文件不存在，跳过
+        return this.getEntriesByExistence().existing;
+    }
+
+    /**
+     * 获取原始文件已被删除的历史记录
+     */
+    public getDeletedHistoryEntries(): HistoryEntry[] {
+        return this.getEntriesByExistence().deleted;
+    }
+
+    /**
+     * 遍历一次所有历史记录，按原始文件是否存在分为两组，每组按时间逆序排序
+     */
+    public getEntriesByExistence(): { existing: HistoryEntry[], deleted: HistoryEntry[] } {
+        const existing: HistoryEntry[] = [];
+        const deleted: HistoryEntry[] = [];
         try {
-            if (!fs.existsSync(this.historyBasePath)) {
-                return [];
-            }
-            
-            const allEntries: HistoryEntry[] = [];
-            const directories = fs.readdirSync(this.historyBasePath);
+            const existence = new Map<string, boolean>();
             
-            for (const dir of directories) {
-                const dirPath = path.join(this.historyBasePath, dir);
-                if (!fs.statSync(dirPath).isDirectory()) continue;
-                
-                // 获取元数据文件
-                const metaFiles = fs.readdirSync(dirPath)
-                    .filter(file => file.endsWith('.meta'));
-                
-                if (metaFiles.length === 0) continue;
-                
-                // 读取所有元数据文件获取原始文件路径
-                for (const metaFile of metaFiles) {
-                    const metaFilePath = path.join(dirPath, metaFile);
-                    try {
-                        const originalFilePath = fs.readFileSync(metaFilePath, 'utf8');
-                        
-                        // 如果原始文件不存在，跳过
-                        if (!fs.existsSync(originalFilePath)) continue;
-                        
-                        // 对应的历史文件
-                        const historyFile = metaFile.replace('.meta', '');
-                        const historyFilePath = path.join(dirPath, historyFile);
-                        
-                        if (!fs.existsSync(historyFilePath)) continue;
-                        
-                        const parseResult = Utils.parseHistoryFileName(historyFile);
-                        if (!parseResult) continue;
-                        
-                        const { timestamp } = parseResult;
-                        
-                        allEntries.push({
-                            filePath: originalFilePath,
-                            historyFilePath,
-                            timestamp,
-                            label: Utils.formatTimestampForDisplay(timestamp),
-                            description: this.getDisplayPath(originalFilePath)
-                        });
-                    } catch (e) {
-                        continue;
+            for (const store of this.getStores()) {
+                for (const [historyFilePath, record] of store.getAllRecords()) {
+                    // 同一文件只检查一次
+                    let exists = existence.get(record.filePath);
+                    if (exists === undefined) {
+                        exists = fs.existsSync(record.filePath);
+                        existence.set(record.filePath, exists);
                     }
+                    
+                    (exists ? existing : deleted).push(this.toEntry(historyFilePath, record));
                 }
             }
-            
-            // 按时间戳逆序排序
-            return allEntries.sort((a, b) => {
-                const dateA = this.getDateFromTimestamp(a.timestamp);
-                const dateB = this.getDateFromTimestamp(b.timestamp);
-                return dateB.getTime() - dateA.getTime();
-            });
         } catch (error) {
             console.error('获取全局历史记录失败:', error);
-            return [];
+            return { existing: [], deleted: [] };
         }
+        
+        // 按时间戳逆序排序
+        const byTimeDesc = (a: HistoryEntry, b: HistoryEntry) => b.timestamp.localeCompare(a.timestamp);
+        return { existing: existing.sort(byTimeDesc), deleted: deleted.sort(byTimeDesc) };
     }
-      /**
+
+    /**
      * 获取文件的相对路径或格式化路径，用于显示
      */
     private getDisplayPath(filePath: string): string {
-        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-            return path.basename(filePath);
-        }
-        
-        const workspaceFolder = vscode.workspace.workspaceFolders[0].uri.fsPath;
-        if (filePath.startsWith(workspaceFolder)) {
-            return filePath.substring(workspaceFolder.length + 1); // +1 移除开头的路径分隔符
+        // 多根工作区中相对于文件自己所在的工作区文件夹
+        const workspaceFolder = Utils.getWorkspaceFolder(filePath);
+        if (workspaceFolder) {
+            return path.relative(workspaceFolder.uri.fsPath, filePath);
         }
         
         return path.basename(filePath);
     }
-    
-    /**
-     * 从时间戳字符串创建Date对象
-     */
-    private getDateFromTimestamp(timestamp: string): Date {
-        try {
-            const [datePart, timePart] = timestamp.split('_');
-            const [year, month, day] = datePart.split('-').map(n => parseInt(n, 10));
-            const [hour, minute, second] = timePart.split('-').map(n => parseInt(n, 10));
-            
-            return new Date(year, month - 1, day, hour, minute, second);
-        } catch (e) {
-            return new Date();
-        }
-    }
 }
\ No newline at end of file
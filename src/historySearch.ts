@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { HistoryContentProvider } from './historyContentProvider';
+import { Utils } from './utils';
+
+/**
+ * 历史内容搜索结果项
+ */
+interface SearchResultItem extends vscode.QuickPickItem {
+    entry: HistoryEntry;
+    line: number;          // 匹配的行号，从 0 开始
+    column: number;        // 匹配的起始列
+    length: number;        // 匹配的长度
+}
+
+/**
+ * 快照中的一处匹配
+ */
+interface ContentMatch {
+    line: number;
+    column: number;
+    length: number;
+    text: string;
+}
+
+/**
+ * 历史内容搜索管理器
+ * 在所有历史快照中搜索文本或正则表达式，结果边搜索边显示
+ */
+export class HistorySearchManager {
+    /**
+     * 最多显示的结果数量
+     */
+    private static readonly MAX_RESULTS = 2000;
+
+    /**
+     * 每个快照最多显示的匹配行数
+     */
+    private static readonly MAX_MATCHES_PER_ENTRY = 20;
+
+    /**
+     * 与当前版本比较的按钮
+     */
+    private static readonly COMPARE_BUTTON: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('diff'),
+        tooltip: '与当前版本比较'
+    };
+
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 搜索历史记录内容
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.searchHistoryContent', async () => {
+                const query = await vscode.window.showInputBox({
+                    prompt: '搜索历史快照的内容，使用 /表达式/ 的形式按正则表达式搜索',
+                    placeHolder: '例如：handleFileSaved 或 /function\\s+\\w+Save/'
+                });
+
+                if (!query) {
+                    return;
+                }
+
+                const pattern = this.createPattern(query);
+                if (!pattern) {
+                    vscode.window.showErrorMessage(`无效的正则表达式: ${query}`);
+                    return;
+                }
+
+                this.showResults(query, pattern);
+            })
+        );
+    }
+
+    /**
+     * 根据输入创建匹配用的正则表达式，纯文本按不区分大小写匹配
+     */
+    private createPattern(query: string): RegExp | null {
+        const regexMatch = query.match(/^\/(.+)\/([a-z]*)$/);
+
+        try {
+            if (regexMatch) {
+                // 逐行匹配时不需要全局标志
+                return new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+            }
+            return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * 显示搜索结果，关闭列表时停止搜索
+     */
+    private showResults(query: string, pattern: RegExp): void {
+        const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+        quickPick.title = `在历史记录中搜索: ${query}`;
+        quickPick.placeholder = '正在搜索...';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.busy = true;
+        // 搜索过程中不断追加结果，保持用户正在查看的位置
+        quickPick.keepScrollPosition = true;
+
+        const cancellation = new vscode.CancellationTokenSource();
+        const results: SearchResultItem[] = [];
+
+        quickPick.onDidAccept(() => {
+            const [selected] = quickPick.selectedItems;
+            if (selected) {
+                quickPick.hide();
+                this.openResult(selected);
+            }
+        });
+
+        quickPick.onDidTriggerItemButton(event => {
+            quickPick.hide();
+            this.compareResult(event.item);
+        });
+
+        quickPick.onDidHide(() => {
+            cancellation.cancel();
+            cancellation.dispose();
+            quickPick.dispose();
+        });
+
+        quickPick.show();
+
+        this.search(pattern, cancellation.token, items => {
+            // 替换列表会重置选中的结果，之前的结果对象不变，因此可以恢复
+            const activeItems = quickPick.activeItems;
+            results.push(...items);
+            quickPick.items = results;
+            quickPick.activeItems = activeItems;
+        }).then(completed => {
+            if (!completed) {
+                return;
+            }
+
+            quickPick.busy = false;
+            if (results.length === 0) {
+                quickPick.placeholder = '没有找到匹配的内容';
+            } else if (results.length >= HistorySearchManager.MAX_RESULTS) {
+                quickPick.placeholder = `结果过多，仅显示前 ${HistorySearchManager.MAX_RESULTS} 条`;
+            } else {
+                quickPick.placeholder = `共找到 ${results.length} 条结果，可输入文字进一步筛选`;
+            }
+        });
+    }
+
+    /**
+     * 按时间从新到旧搜索所有快照，每处理完一批快照就回调一次结果
+     * 返回搜索是否完成，被取消时返回 false
+     */
+    private async search(
+        pattern: RegExp,
+        token: vscode.CancellationToken,
+        onResults: (items: SearchResultItem[]) => void
+    ): Promise<boolean> {
+        const { existing, deleted } = this.historyManager.getEntriesByExistence();
+        const entries = [...existing, ...deleted].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+        // 相同内容只搜索一次
+        const matchesByHash = new Map<string, ContentMatch[]>();
+        let total = 0;
+        let batch: SearchResultItem[] = [];
+        let lastFlush = Date.now();
+
+        for (const entry of entries) {
+            if (token.isCancellationRequested) {
+                return false;
+            }
+
+            let matches = matchesByHash.get(entry.contentHash);
+            if (!matches) {
+                matches = this.findMatches(entry, pattern);
+                matchesByHash.set(entry.contentHash, matches);
+            }
+
+            for (const match of matches) {
+                batch.push({
+                    label: match.text,
+                    description: `${entry.description}:${match.line + 1}`,
+                    detail: entry.note ? `${entry.label} · ${entry.note}` : entry.label,
+                    buttons: [HistorySearchManager.COMPARE_BUTTON],
+                    entry,
+                    line: match.line,
+                    column: match.column,
+                    length: match.length
+                });
+            }
+
+            total += matches.length;
+            if (total >= HistorySearchManager.MAX_RESULTS) {
+                break;
+            }
+
+            // 定期输出结果并让出线程，避免阻塞扩展主机
+            if (Date.now() - lastFlush > 100) {
+                onResults(batch);
+                batch = [];
+                lastFlush = Date.now();
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        }
+
+        if (token.isCancellationRequested) {
+            return false;
+        }
+
+        onResults(batch);
+        return true;
+    }
+
+    /**
+     * 在快照内容中查找匹配的行，跳过二进制内容
+     */
+    private findMatches(entry: HistoryEntry, pattern: RegExp): ContentMatch[] {
+        const content = this.historyManager.getHistoryFileContent(entry.historyFilePath);
+        if (!content || Utils.isBinaryContent(content)) {
+            return [];
+        }
+
+        const matches: ContentMatch[] = [];
+        const lines = content.toString('utf8').split(/\r?\n/);
+
+        for (let i = 0; i < lines.length && matches.length < HistorySearchManager.MAX_MATCHES_PER_ENTRY; i++) {
+            const match = pattern.exec(lines[i]);
+            if (match) {
+                matches.push({
+                    line: i,
+                    column: match.index,
+                    length: match[0].length,
+                    text: lines[i].trim().substring(0, 200)
+                });
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * 打开快照并定位到匹配的位置
+     */
+    private async openResult(item: SearchResultItem): Promise<void> {
+        const range = new vscode.Range(item.line, item.column, item.line, item.column + item.length);
+        await vscode.window.showTextDocument(HistoryContentProvider.getUri(item.entry), {
+            selection: range,
+            preview: true
+        });
+    }
+
+    /**
+     * 比较快照与当前版本
+     */
+    private async compareResult(item: SearchResultItem): Promise<void> {
+        await vscode.commands.executeCommand('filelocalhistory.compareWithCurrent', item.entry);
+    }
+}
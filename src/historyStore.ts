@@ -0,0 +1,406 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlobStore } from './blobStore';
+import { HistoryIndex } from './historyIndex';
+import { HistoryRecord } from './historyManager';
+import { Utils } from './utils';
+
+/**
+ * 历史记录元数据文件的扩展名
+ */
+const RECORD_EXT = '.json';
+
+/**
+ * 存储格式版本，用于判断是否需要迁移旧格式的历史记录
+ */
+const STORE_VERSION = 3;
+
+/**
+ * 历史记录存储
+ * 一个存储目录包含快照内容、索引和各文件的历史记录元数据。
+ * 全局存储中每个文件的历史记录目录以路径的 md5 命名；工作区存储位于工作区文件夹内，
+ * 按相对路径镜像源码的目录结构，元数据中的路径也保存为相对路径，移动或复制项目后仍可使用
+ */
+export class HistoryStore {
+    /**
+     * 工作区存储在工作区文件夹中的目录名
+     */
+    public static readonly WORKSPACE_DIR_NAME = '.history';
+
+    /**
+     * 工作区存储中存放各文件历史记录的目录名
+     */
+    private static readonly FILES_DIR_NAME = 'files';
+
+    public readonly blobStore: BlobStore;
+    private index: HistoryIndex;
+
+    /**
+     * @param basePath 存储目录
+     * @param root 工作区存储对应的工作区文件夹，全局存储为 undefined
+     */
+    constructor(public readonly basePath: string, public readonly root?: string) {
+        this.blobStore = new BlobStore(basePath);
+        this.index = new HistoryIndex(basePath);
+
+        if (fs.existsSync(basePath)) {
+            this.migrateLegacyHistory();
+        } else {
+            fs.mkdirSync(basePath, { recursive: true });
+            this.writeVersion();
+        }
+
+        // 首次使用或索引丢失时从目录重新生成
+        if (!this.index.load()) {
+            this.rebuildIndex();
+        }
+    }
+
+    /**
+     * 获取工作区文件夹对应的工作区存储目录
+     */
+    public static getWorkspaceStorePath(folderPath: string): string {
+        return path.join(folderPath, HistoryStore.WORKSPACE_DIR_NAME);
+    }
+
+    /**
+     * 判断路径是否位于该存储目录中
+     */
+    public contains(filePath: string): boolean {
+        return filePath.startsWith(this.basePath + path.sep);
+    }
+
+    /**
+     * 获取文件的历史记录目录
+     */
+    public getHistoryDir(filePath: string): string {
+        if (this.root) {
+            return path.join(this.basePath, HistoryStore.FILES_DIR_NAME, path.relative(this.root, filePath));
+        }
+
+        return path.join(this.basePath, Utils.getHashForFile(filePath));
+    }
+
+    /**
+     * 获取文件新快照的元数据文件路径，默认使用当前时刻
+     */
+    public getRecordPath(filePath: string, timestamp?: string): string {
+        return path.join(this.getHistoryDir(filePath), Utils.getHistoryFileName(filePath, timestamp) + RECORD_EXT);
+    }
+
+    /**
+     * 获取文件的所有历史记录，键为元数据文件路径，按时间逆序排列
+     */
+    public getRecordsForFile(filePath: string): [string, HistoryRecord][] {
+        const historyDir = this.getHistoryDir(filePath);
+        return Array.from(this.index.getRecordsInDir(this.getRecordId(historyDir)))
+            .sort((a, b) => b[1].timestamp.localeCompare(a[1].timestamp)) // 按时间戳逆序排序
+            .map(([file, record]) => [path.join(historyDir, file), this.fromStoredRecord(record)]);
+    }
+
+    /**
+     * 获取指定的历史记录，优先从索引中查找，记录已被删除时返回 null
+     */
+    public getRecord(historyFilePath: string): HistoryRecord | null {
+        const record = this.index.getRecord(this.getRecordId(historyFilePath)) || this.readRecordFile(historyFilePath);
+        return record ? this.fromStoredRecord(record) : null;
+    }
+
+    /**
+     * 获取存储中的所有历史记录，键为元数据文件路径
+     */
+    public getAllRecords(): Map<string, HistoryRecord> {
+        const records = new Map<string, HistoryRecord>();
+        for (const [id, record] of this.index.getAllRecords()) {
+            records.set(path.join(this.basePath, id), this.fromStoredRecord(record));
+        }
+        return records;
+    }
+
+    /**
+     * 写入历史记录元数据文件并更新索引
+     */
+    public writeRecord(historyFilePath: string, record: HistoryRecord): void {
+        const storedRecord = this.toStoredRecord(record);
+        fs.mkdirSync(path.dirname(historyFilePath), { recursive: true });
+        fs.writeFileSync(historyFilePath, JSON.stringify(storedRecord));
+        this.index.add(this.getRecordId(historyFilePath), storedRecord);
+    }
+
+    /**
+     * 删除历史记录元数据文件，快照内容在垃圾回收时清理
+     */
+    public removeRecord(historyFilePath: string): void {
+        try {
+            fs.unlinkSync(historyFilePath);
+        } catch (e) {
+            // 忽略删除失败的错误
+        }
+        this.index.remove(this.getRecordId(historyFilePath));
+        this.removeEmptyDirs(path.dirname(historyFilePath));
+    }
+
+    /**
+     * 删除不再被任何历史记录引用的快照内容
+     */
+    public collectGarbage(): void {
+        const referencedHashes = new Set<string>();
+        for (const record of this.index.getAllRecords().values()) {
+            referencedHashes.add(record.contentHash);
+        }
+
+        this.blobStore.prune(referencedHashes);
+    }
+
+    /**
+     * 从目录重新生成历史记录索引，返回索引的记录数量
+     */
+    public rebuildIndex(): number {
+        const records = new Map<string, HistoryRecord>();
+
+        for (const dirPath of this.listHistoryDirs()) {
+            for (const recordFile of this.listRecordFiles(dirPath)) {
+                const historyFilePath = path.join(dirPath, recordFile);
+                const record = this.readRecordFile(historyFilePath);
+                if (record) {
+                    records.set(this.getRecordId(historyFilePath), record);
+                }
+            }
+        }
+
+        this.index.rebuild(records);
+        return records.size;
+    }
+
+    /**
+     * 存储中没有任何历史记录时删除存储目录，返回是否已删除
+     * 只删除本扩展创建的文件，目录中还有其他文件时保留
+     */
+    public removeIfEmpty(): boolean {
+        if (this.index.getAllRecords().size > 0) {
+            return false;
+        }
+
+        for (const name of ['store.json', HistoryIndex.FILE_NAME, BlobStore.DIR_NAME, HistoryStore.FILES_DIR_NAME]) {
+            fs.rmSync(path.join(this.basePath, name), { recursive: true, force: true });
+        }
+
+        try {
+            fs.rmdirSync(this.basePath);
+        } catch (e) {
+            // 目录中还有其他文件
+        }
+        return true;
+    }
+
+    /**
+     * 将历史记录转换为保存在磁盘上的形式，工作区存储中的路径保存为相对路径
+     */
+    private toStoredRecord(record: HistoryRecord): HistoryRecord {
+        if (!this.root) {
+            return record;
+        }
+
+        return {
+            ...record,
+            filePath: this.toRelativePath(record.filePath),
+            recordedPath: record.recordedPath && this.toRelativePath(record.recordedPath),
+            workspace: undefined
+        };
+    }
+
+    /**
+     * 将磁盘上保存的历史记录转换为使用绝对路径的形式
+     */
+    private fromStoredRecord(record: HistoryRecord): HistoryRecord {
+        if (!this.root) {
+            return record;
+        }
+
+        return {
+            ...record,
+            filePath: this.toAbsolutePath(record.filePath),
+            recordedPath: record.recordedPath && this.toAbsolutePath(record.recordedPath),
+            workspace: this.root
+        };
+    }
+
+    /**
+     * 获取相对于工作区文件夹的路径，统一使用 / 分隔以便在不同系统间共享
+     */
+    private toRelativePath(filePath: string): string {
+        return path.relative(this.root!, filePath).split(path.sep).join('/');
+    }
+
+    /**
+     * 将相对于工作区文件夹的路径还原为绝对路径
+     */
+    private toAbsolutePath(relativePath: string): string {
+        return path.join(this.root!, ...relativePath.split('/'));
+    }
+
+    /**
+     * 获取元数据文件在索引中的 id
+     */
+    private getRecordId(historyFilePath: string): string {
+        return path.relative(this.basePath, historyFilePath).split(path.sep).join('/');
+    }
+
+    /**
+     * 删除历史记录目录中的空目录，直到存储目录为止
+     */
+    private removeEmptyDirs(dirPath: string): void {
+        while (this.contains(dirPath) && this.isHistoryDir(dirPath)) {
+            try {
+                fs.rmdirSync(dirPath);
+            } catch (e) {
+                // 目录不为空
+                return;
+            }
+            dirPath = path.dirname(dirPath);
+        }
+    }
+
+    /**
+     * 判断目录是否属于各文件的历史记录目录（不包括快照内容等目录）
+     */
+    private isHistoryDir(dirPath: string): boolean {
+        if (this.root) {
+            return dirPath.startsWith(path.join(this.basePath, HistoryStore.FILES_DIR_NAME) + path.sep);
+        }
+
+        return /^[0-9a-f]{32}$/.test(path.relative(this.basePath, dirPath));
+    }
+
+    /**
+     * 列出所有文件的历史记录目录
+     */
+    private listHistoryDirs(): string[] {
+        if (!fs.existsSync(this.basePath)) {
+            return [];
+        }
+
+        // 工作区存储中的历史记录目录镜像源码的目录结构
+        if (this.root) {
+            const dirs: string[] = [];
+            this.collectHistoryDirs(path.join(this.basePath, HistoryStore.FILES_DIR_NAME), dirs);
+            return dirs;
+        }
+
+        // 每个文件的历史记录目录以路径的 md5 命名，其余目录（快照内容、检查点等）不在此列
+        return fs.readdirSync(this.basePath)
+            .filter(dir => /^[0-9a-f]{32}$/.test(dir))
+            .map(dir => path.join(this.basePath, dir))
+            .filter(dirPath => fs.statSync(dirPath).isDirectory());
+    }
+
+    /**
+     * 递归收集包含元数据文件的目录
+     */
+    private collectHistoryDirs(dirPath: string, dirs: string[]): void {
+        if (!fs.existsSync(dirPath)) {
+            return;
+        }
+
+        const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+        if (entries.some(entry => entry.isFile() && entry.name.endsWith(RECORD_EXT))) {
+            dirs.push(dirPath);
+        }
+
+        for (const entry of entries) {
+            if (entry.isDirectory()) {
+                this.collectHistoryDirs(path.join(dirPath, entry.name), dirs);
+            }
+        }
+    }
+
+    /**
+     * 列出目录下的历史记录元数据文件
+     */
+    private listRecordFiles(dirPath: string): string[] {
+        return fs.readdirSync(dirPath).filter(file => file.endsWith(RECORD_EXT));
+    }
+
+    /**
+     * 读取历史记录元数据文件
+     */
+    private readRecordFile(historyFilePath: string): HistoryRecord | null {
+        try {
+            return JSON.parse(fs.readFileSync(historyFilePath, 'utf8')) as HistoryRecord;
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**
+     * 记录当前的存储格式版本
+     */
+    private writeVersion(): void {
+        fs.writeFileSync(path.join(this.basePath, 'store.json'), JSON.stringify({ version: STORE_VERSION }));
+    }
+
+    /**
+     * 将旧格式的历史记录迁移到当前的存储格式
+     * 版本 1：每次保存完整副本 + .meta 文件；版本 2：按内容寻址但未压缩
+     */
+    private migrateLegacyHistory(): void {
+        const versionFilePath = path.join(this.basePath, 'store.json');
+
+        try {
+            let version = 1;
+            if (fs.existsSync(versionFilePath)) {
+                version = JSON.parse(fs.readFileSync(versionFilePath, 'utf8')).version;
+            }
+
+            if (version >= STORE_VERSION) {
+                return;
+            }
+
+            if (version < 2) {
+                this.migrateCopiesToBlobStore();
+            }
+
+            if (version < 3) {
+                this.blobStore.compressUncompressedBlobs();
+            }
+
+            this.writeVersion();
+        } catch (error) {
+            console.error('迁移历史记录失败:', error);
+        }
+    }
+
+    /**
+     * 将完整副本 + .meta 文件形式的历史记录迁移到按内容寻址的存储
+     */
+    private migrateCopiesToBlobStore(): void {
+        for (const dirPath of this.listHistoryDirs()) {
+            const metaFiles = fs.readdirSync(dirPath)
+                .filter(file => file.endsWith('.meta'));
+
+            for (const metaFile of metaFiles) {
+                const metaFilePath = path.join(dirPath, metaFile);
+                const historyFile = metaFile.slice(0, -'.meta'.length);
+                const historyFilePath = path.join(dirPath, historyFile);
+
+                try {
+                    const parseResult = Utils.parseHistoryFileName(historyFile);
+                    if (parseResult && fs.existsSync(historyFilePath)) {
+                        const content = fs.readFileSync(historyFilePath);
+                        const record: HistoryRecord = {
+                            filePath: fs.readFileSync(metaFilePath, 'utf8'),
+                            timestamp: parseResult.timestamp,
+                            contentHash: this.blobStore.write(content),
+                            size: content.length
+                        };
+                        fs.writeFileSync(historyFilePath + RECORD_EXT, JSON.stringify(record));
+                        fs.unlinkSync(historyFilePath);
+                    }
+                    fs.unlinkSync(metaFilePath);
+                } catch (e) {
+                    console.error('迁移历史记录失败:', historyFilePath, e);
+                }
+            }
+        }
+    }
+}
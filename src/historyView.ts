@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { HistoryManager, HistoryEntry } from './historyManager';
+import { HistoryManager, HistoryEntry, PruneCandidate } from './historyManager';
 import { Utils } from './utils';
+import { CompareView } from './compareView';
 
 /**
  * 历史记录树项
@@ -11,16 +12,25 @@ class HistoryItem extends vscode.TreeItem {    constructor(
         public readonly entry: HistoryEntry,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState
     ) {
-        // 先调用父类构造函数
-        super(path.basename(entry.filePath), collapsibleState);
+        // 先调用父类构造函数，文件被重命名过时显示快照当时的文件名
+        super(path.basename(entry.recordedPath || entry.filePath), collapsibleState);
         
-        // 文件名作为主标签，时间作为描述
-        // 使用文件图标
-        this.iconPath = vscode.ThemeIcon.File;
-        this.description = entry.label;
+        // 文件名作为主标签，时间和标签作为描述
+        // 带标签的快照使用标签图标，未保存的草稿使用编辑图标，
+        // 切换分支产生的快照使用分支图标，其余使用文件图标
+        this.iconPath = entry.note ? new vscode.ThemeIcon('tag') :
+            entry.draft ? new vscode.ThemeIcon('edit') :
+            entry.checkout ? new vscode.ThemeIcon('git-branch') : vscode.ThemeIcon.File;
+        this.description = entry.note ? `${entry.label} · ${entry.note}` : entry.label;
         
         // 悬浮窗保持多行显示
-        this.tooltip = `${entry.label}\n${entry.description}`;
+        this.tooltip = `${entry.label}\n${entry.description}` +
+            (entry.note ? `\n标签: ${entry.note}` : '') +
+            (entry.recordedPath ? `\n当时的路径: ${entry.recordedPath}` : '') +
+            (entry.draft ? '\n未保存的草稿' : '') +
+            (entry.branch ? `\n分支: ${entry.branch}` : '') +
+            (entry.commit ? `\n提交: ${entry.commit.substring(0, 7)}` : '') +
+            (entry.checkout ? '\n由切换分支等 git 操作产生' : '');
         this.contextValue = 'historyItem';
         
         // 如果是文件项，添加命令处理
@@ -82,6 +92,13 @@ export class HistoryViewProvider implements vscode.TreeDataProvider<HistoryItem
         this.refresh();
     }
     
+    /**
+     * 重新读取当前文件的历史记录
+     */
+    reload(): void {
+        this.setFilePath(this.currentFilePath);
+    }
+    
     /**
      * 获取树项元素
      */
@@ -199,14 +216,16 @@ export class HistoryViewProvider implements vscode.TreeDataProvider<HistoryItem
 export class HistoryViewManager {
     private historyView: vscode.TreeView<HistoryItem | DateGroupItem>;
     private historyViewProvider: HistoryViewProvider;
+    private selectedForCompare: HistoryEntry | undefined;
     
     constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
         this.historyViewProvider = new HistoryViewProvider(historyManager);
         
-        // 注册树视图
+        // 注册树视图，支持多选以便比较两个版本
         this.historyView = vscode.window.createTreeView('filelocalhistoryView', {
             treeDataProvider: this.historyViewProvider,
-            showCollapseAll: true
+            showCollapseAll: true,
+            canSelectMany: true
         });
         
         // 添加到订阅列表
@@ -252,25 +271,148 @@ export class HistoryViewManager {
         // 比较历史版本与当前版本
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.compareWithCurrent', async (entry: HistoryEntry) => {
-                // 检查文件是否存在
+                // 文件已被删除时直接打开快照
                 if (!fs.existsSync(entry.filePath)) {
-                    vscode.window.showErrorMessage(`文件 ${entry.filePath} 不存在`);
+                    await CompareView.open(entry);
                     return;
                 }
                 
-                const originalUri = vscode.Uri.file(entry.filePath);
-                const historyUri = vscode.Uri.file(entry.historyFilePath);
-                
                 // 打开差异比较
-                await vscode.commands.executeCommand(
-                    'vscode.diff',
-                    historyUri,
-                    originalUri,
+                await CompareView.compare(
+                    this.historyManager,
+                    entry,
+                    entry.filePath,
                     `${path.basename(entry.filePath)} (${entry.label}) ↔ 当前版本`
                 );
             })
         );
         
+        // 恢复到指定的历史版本
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.restoreVersion', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                const entry = this.resolveEntry(item);
+                const fileName = path.basename(entry.filePath);
+                
+                // 文件有未保存的修改时，由用户决定如何处理，避免修改被直接覆盖
+                const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === entry.filePath);
+                if (document?.isDirty) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `${fileName} 有未保存的修改`,
+                        {
+                            modal: true,
+                            detail: '选择“保存后恢复”会先保存这些修改并记录到历史中；选择“放弃修改并恢复”会将这些修改保存为草稿，之后仍可从历史记录中找回。'
+                        },
+                        '保存后恢复',
+                        '放弃修改并恢复'
+                    );
+                    
+                    if (!choice) {
+                        return;
+                    }
+                    
+                    if (choice === '保存后恢复' && !await document.save()) {
+                        vscode.window.showErrorMessage(`保存 ${fileName} 失败，已取消恢复`);
+                        return;
+                    }
+                }
+                
+                const restored = await this.historyManager.restoreHistory(entry);
+                if (!restored) {
+                    vscode.window.showErrorMessage(`恢复 ${fileName} 失败`);
+                    return;
+                }
+                
+                vscode.window.showInformationMessage(`已将 ${fileName} 恢复到 ${entry.label} 的版本，恢复前的内容已保存到历史记录`);
+                
+                // 刷新视图
+                this.historyViewProvider.reload();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+        
+        // 创建带标签的快照
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.createLabeledSnapshot', async (fileUri?: vscode.Uri) => {
+                const document = fileUri
+                    ? vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === fileUri.fsPath)
+                    : vscode.window.activeTextEditor?.document;
+                const filePath = fileUri ? fileUri.fsPath : document?.uri.fsPath;
+                
+                if (!filePath) {
+                    vscode.window.showErrorMessage('没有选择文件或打开的编辑器');
+                    return;
+                }
+                
+                const note = await vscode.window.showInputBox({
+                    prompt: `为 ${path.basename(filePath)} 的当前版本添加标签`,
+                    placeHolder: '例如：重构之前'
+                });
+                
+                if (!note) {
+                    return;
+                }
+                
+                // 先保存未保存的修改，使快照与编辑器中的内容一致
+                if (document?.isDirty && !await document.save()) {
+                    vscode.window.showErrorMessage(`保存 ${path.basename(filePath)} 失败`);
+                    return;
+                }
+                
+                const entry = await this.historyManager.saveHistory(filePath, { note });
+                if (!entry) {
+                    vscode.window.showErrorMessage(`无法为 ${path.basename(filePath)} 创建快照`);
+                    return;
+                }
+                
+                vscode.window.showInformationMessage(`已创建快照: ${note}`);
+                this.historyViewProvider.reload();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+        
+        // 编辑历史记录的标签
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.editNote', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                const entry = this.resolveEntry(item);
+                
+                const note = await vscode.window.showInputBox({
+                    prompt: '编辑历史记录的标签，留空将移除标签',
+                    placeHolder: '例如：重构之前',
+                    value: entry.note || ''
+                });
+                
+                // 用户取消
+                if (note === undefined) {
+                    return;
+                }
+                
+                this.historyManager.updateNote(entry, note.trim());
+                this.historyViewProvider.reload();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+        
+        // 删除单条历史记录
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.deleteEntry', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                const entry = this.resolveEntry(item);
+                
+                const choice = await vscode.window.showWarningMessage(
+                    `确定要删除 ${path.basename(entry.filePath)} 在 ${entry.label} 的历史记录吗？`,
+                    { modal: true, detail: entry.note ? `标签: ${entry.note}` : undefined },
+                    '删除'
+                );
+                
+                if (choice !== '删除') {
+                    return;
+                }
+                
+                this.historyManager.deleteEntry(entry);
+                this.historyViewProvider.reload();
+                vscode.commands.executeCommand('filelocalhistory.refreshProjectHistory');
+            })
+        );
+        
         // 比较当前文件与前一个版本
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.compareWithPrevious', async () => {
@@ -290,19 +432,67 @@ export class HistoryViewManager {
                 // 获取最新的历史版本
                 const latestEntry = entries[0];
                 
-                const originalUri = vscode.Uri.file(filePath);
-                const historyUri = vscode.Uri.file(latestEntry.historyFilePath);
-                
                 // 打开差异比较
-                await vscode.commands.executeCommand(
-                    'vscode.diff',
-                    historyUri,
-                    originalUri,
+                await CompareView.compare(
+                    this.historyManager,
+                    latestEntry,
+                    filePath,
                     `${path.basename(filePath)} (${latestEntry.label}) ↔ 当前版本`
                 );
             })
         );
         
+        // 比较多选的两个历史版本
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.compareSelectedEntries', async (item: HistoryItem, selectedItems?: (HistoryItem | DateGroupItem)[]) => {
+                const historyItems = (selectedItems || [item])
+                    .filter((selected): selected is HistoryItem => selected instanceof HistoryItem);
+                
+                if (historyItems.length !== 2) {
+                    vscode.window.showErrorMessage('请选择两个历史版本进行比较');
+                    return;
+                }
+                
+                await this.compareEntries(historyItems[0].entry, historyItems[1].entry);
+            })
+        );
+        
+        // 选择一个历史版本，之后与另一个版本比较
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.selectForCompare', (item: HistoryEntry | { entry: HistoryEntry }) => {
+                this.selectedForCompare = this.resolveEntry(item);
+                vscode.commands.executeCommand('setContext', 'filelocalhistory.hasSelectedForCompare', true);
+            })
+        );
+        
+        // 与之前选择的历史版本比较
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.compareWithSelected', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                if (!this.selectedForCompare) {
+                    vscode.window.showErrorMessage('请先选择一个要比较的历史版本');
+                    return;
+                }
+                
+                await this.compareEntries(this.selectedForCompare, this.resolveEntry(item));
+            })
+        );
+        
+        // 比较历史版本与它的上一个历史版本
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.compareWithPreviousVersion', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                const entry = this.resolveEntry(item);
+                const entries = this.historyManager.getHistoryEntriesForFile(entry.filePath);
+                const index = entries.findIndex(e => e.historyFilePath === entry.historyFilePath);
+                
+                if (index < 0 || index === entries.length - 1) {
+                    vscode.window.showInformationMessage('这是该文件最早的历史版本');
+                    return;
+                }
+                
+                await this.compareEntries(entries[index + 1], entry);
+            })
+        );
+        
         // 清理历史记录
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.purgeHistory', async () => {
@@ -335,6 +525,48 @@ export class HistoryViewManager {
             })
         );
         
+        // 预览按当前保留策略清理时将删除的历史记录，确认后再清理
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.previewCleanup', async () => {
+                const result = await vscode.window.showQuickPick(['全部历史记录', '仅当前文件'], {
+                    placeHolder: '请选择要预览清理的历史记录范围'
+                });
+                
+                if (!result) {
+                    return;
+                }
+                
+                let filePath: string | undefined;
+                if (result === '仅当前文件') {
+                    if (!vscode.window.activeTextEditor) {
+                        vscode.window.showErrorMessage('没有打开的编辑器');
+                        return;
+                    }
+                    filePath = vscode.window.activeTextEditor.document.uri.fsPath;
+                }
+                
+                const candidates = this.historyManager.getPruneCandidates(filePath);
+                if (candidates.length === 0) {
+                    vscode.window.showInformationMessage('按当前的保留策略，没有需要清理的历史记录');
+                    return;
+                }
+                
+                const document = await vscode.workspace.openTextDocument({ content: this.formatCleanupReport(candidates) });
+                await vscode.window.showTextDocument(document);
+                
+                const fileCount = new Set(candidates.map(candidate => candidate.entry.filePath)).size;
+                const choice = await vscode.window.showInformationMessage(
+                    `清理时将删除 ${fileCount} 个文件的 ${candidates.length} 条历史记录`,
+                    '立即清理'
+                );
+                if (choice) {
+                    await this.historyManager.cleanupHistory(filePath);
+                    this.historyViewProvider.refresh();
+                    vscode.window.showInformationMessage(`已清理 ${candidates.length} 条历史记录`);
+                }
+            })
+        );
+        
         // 显示历史记录
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.showHistory', () => {
@@ -345,7 +577,57 @@ export class HistoryViewManager {
                 }
             })
         );
-    }    /**
+    }
+
+    /**
+     * 比较两个历史版本，较早的版本显示在左侧
+     */
+    private async compareEntries(a: HistoryEntry, b: HistoryEntry): Promise<void> {
+        const [older, newer] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+        const olderName = path.basename(older.recordedPath || older.filePath);
+        const newerName = path.basename(newer.recordedPath || newer.filePath);
+        
+        const title = olderName === newerName
+            ? `${olderName} (${older.label}) ↔ (${newer.label})`
+            : `${olderName} (${older.label}) ↔ ${newerName} (${newer.label})`;
+        
+        await CompareView.compare(this.historyManager, older, newer, title);
+    }
+
+    /**
+     * 生成清理预览的内容，按文件列出将被删除的历史记录及原因
+     */
+    private formatCleanupReport(candidates: PruneCandidate[]): string {
+        const byFile = new Map<string, PruneCandidate[]>();
+        for (const candidate of candidates) {
+            const fileCandidates = byFile.get(candidate.entry.filePath) || [];
+            fileCandidates.push(candidate);
+            byFile.set(candidate.entry.filePath, fileCandidates);
+        }
+        
+        const lines = [
+            `清理预览：将删除 ${byFile.size} 个文件的 ${candidates.length} 条历史记录`,
+            '超过存储空间限制时删除的记录不在此列出',
+            ''
+        ];
+        for (const filePath of Array.from(byFile.keys()).sort()) {
+            lines.push(filePath);
+            for (const { entry, reason } of byFile.get(filePath)!) {
+                lines.push(`    ${Utils.formatTimestampForDisplay(entry.timestamp)}    ${reason}`);
+            }
+            lines.push('');
+        }
+        return lines.join('\n');
+    }
+    
+    /**
+     * 命令参数可能是历史记录本身，也可能是树项
+     */
+    private resolveEntry(item: HistoryEntry | { entry: HistoryEntry }): HistoryEntry {
+        return 'entry' in item ? item.entry : item;
+    }
+
+    /**
      * 显示历史记录视图
      */
     private showHistoryView(): void {
@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { DiffUtils } from './diffUtils';
+import { Utils } from './utils';
+
+/**
+ * 最新快照中每一行的来源，文件的历史记录发生变化之前可以复用
+ */
+interface SnapshotBlame {
+    lines: string[];           // 最新快照的内容
+    owners: HistoryEntry[];    // 最新快照中每一行最早原样出现的快照
+}
+
+/**
+ * 本地历史追溯
+ * 根据文件的历史快照找出当前每一行最早原样出现在哪个快照中，显示在行尾，
+ * 悬停时可以打开该快照的差异。用于查看还没有提交到 git 的编辑过程
+ */
+export class LocalBlameManager {
+    private enabled = false;
+    // 没有可追溯的快照时缓存 undefined，编辑文件时无需重复读取历史记录
+    private cache = new Map<string, SnapshotBlame | undefined>();
+    private updateTimer: NodeJS.Timeout | undefined;
+
+    private readonly decorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            fontStyle: 'italic',
+            margin: '0 0 0 3em'
+        },
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedOpen
+    });
+
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.context.subscriptions.push(this.decorationType);
+        this.registerCommands();
+        this.registerListeners();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 开启或关闭当前编辑器的本地历史追溯
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.toggleBlame', () => {
+                this.enabled = !this.enabled;
+                vscode.commands.executeCommand('setContext', 'filelocalhistory.blameEnabled', this.enabled);
+
+                if (this.enabled) {
+                    this.update(vscode.window.activeTextEditor);
+                } else {
+                    vscode.window.visibleTextEditors.forEach(editor => editor.setDecorations(this.decorationType, []));
+                    this.cache.clear();
+                }
+            })
+        );
+    }
+
+    /**
+     * 切换编辑器、修改或保存文件后更新追溯结果
+     */
+    private registerListeners(): void {
+        // 只在文件的历史记录变化时重新计算快照之间的追溯，编辑时只需与最新快照比较
+        this.context.subscriptions.push(this.historyManager.onDidChangeHistory(filePath => {
+            this.cache.delete(filePath);
+        }));
+
+        this.context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (this.enabled) {
+                this.update(editor);
+            }
+        }));
+
+        const scheduleUpdate = (document: vscode.TextDocument) => {
+            const editor = vscode.window.activeTextEditor;
+            if (!this.enabled || editor?.document !== document) {
+                return;
+            }
+
+            // 保存后快照由其他监听器写入，稍后再更新
+            if (this.updateTimer) {
+                clearTimeout(this.updateTimer);
+            }
+            this.updateTimer = setTimeout(() => {
+                this.updateTimer = undefined;
+                this.update(vscode.window.activeTextEditor);
+            }, 500);
+        };
+
+        this.context.subscriptions.push(
+            vscode.workspace.onDidChangeTextDocument(event => scheduleUpdate(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => scheduleUpdate(document)),
+            { dispose: () => this.updateTimer && clearTimeout(this.updateTimer) }
+        );
+    }
+
+    /**
+     * 为编辑器计算并显示追溯结果，连续来自同一快照的行只在第一行显示
+     */
+    private update(editor: vscode.TextEditor | undefined): void {
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            return;
+        }
+
+        try {
+            const document = editor.document;
+            const owners = this.blame(document);
+            const decorations: vscode.DecorationOptions[] = [];
+
+            owners.forEach((owner, line) => {
+                const isFirst = line === 0 || owners[line - 1]?.historyFilePath !== owner?.historyFilePath;
+                decorations.push({
+                    range: new vscode.Range(document.lineAt(line).range.end, document.lineAt(line).range.end),
+                    hoverMessage: this.createHover(owner),
+                    renderOptions: {
+                        after: {
+                            contentText: isFirst ? this.createAnnotation(owner) : ''
+                        }
+                    }
+                });
+            });
+
+            editor.setDecorations(this.decorationType, decorations);
+        } catch (error) {
+            console.error('计算本地历史追溯失败:', error);
+        }
+    }
+
+    /**
+     * 计算当前文档每一行的来源快照，自最新快照以来修改过的行为 undefined
+     */
+    private blame(document: vscode.TextDocument): (HistoryEntry | undefined)[] {
+        const currentLines = DiffUtils.splitLines(document.getText());
+        const snapshot = this.getSnapshotBlame(document.uri.fsPath);
+        if (!snapshot) {
+            return currentLines.map(() => undefined);
+        }
+
+        const toSnapshotLine = this.mapLines(snapshot.lines, currentLines);
+        // 文档为空时 splitLines 返回空数组，但编辑器中仍有一行
+        const lineCount = Math.min(document.lineCount, Math.max(currentLines.length, 1));
+        const owners: (HistoryEntry | undefined)[] = [];
+        for (let line = 0; line < lineCount; line++) {
+            const snapshotLine = toSnapshotLine[line];
+            owners.push(snapshotLine === undefined || snapshotLine < 0 ? undefined : snapshot.owners[snapshotLine]);
+        }
+        return owners;
+    }
+
+    /**
+     * 从最新快照开始逐个与更早的快照比较，一行在更早的快照中不存在时，就归属于它最早出现的快照
+     * 未保存的草稿不参与计算，遇到二进制内容时停止
+     */
+    private getSnapshotBlame(filePath: string): SnapshotBlame | undefined {
+        if (this.cache.has(filePath)) {
+            return this.cache.get(filePath);
+        }
+
+        const entries = this.historyManager.getHistoryEntriesForFile(filePath).filter(entry => !entry.draft);
+
+        const readLines = (entry: HistoryEntry): string[] | undefined => {
+            const content = this.historyManager.getHistoryFileContent(entry.historyFilePath);
+            return content && !Utils.isBinaryContent(content) ? DiffUtils.splitLines(content.toString('utf8')) : undefined;
+        };
+
+        const latestLines = entries.length > 0 ? readLines(entries[0]) : undefined;
+        if (!latestLines) {
+            this.cache.set(filePath, undefined);
+            return undefined;
+        }
+
+        const owners: (HistoryEntry | undefined)[] = new Array(latestLines.length).fill(undefined);
+        // 最新快照中每一行在当前比较的较新快照中的行号
+        const positions = latestLines.map((_, line) => line);
+        let remaining = latestLines.length;
+        let newer = entries[0];
+        let newerLines = latestLines;
+
+        for (let i = 1; i < entries.length && remaining > 0; i++) {
+            const olderLines = readLines(entries[i]);
+            if (!olderLines) {
+                break;
+            }
+
+            const toOlderLine = this.mapLines(olderLines, newerLines);
+            for (let line = 0; line < latestLines.length; line++) {
+                if (owners[line]) {
+                    continue;
+                }
+                const olderLine = toOlderLine[positions[line]];
+                if (olderLine < 0) {
+                    owners[line] = newer;
+                    remaining--;
+                } else {
+                    positions[line] = olderLine;
+                }
+            }
+
+            newer = entries[i];
+            newerLines = olderLines;
+        }
+
+        // 一直追溯到最早的快照仍然存在的行
+        const blame: SnapshotBlame = {
+            lines: latestLines,
+            owners: owners.map(owner => owner || newer)
+        };
+        this.cache.set(filePath, blame);
+        return blame;
+    }
+
+    /**
+     * 计算 modified 中每一行在 original 中对应的行号，修改或新增的行为 -1
+     */
+    private mapLines(original: string[], modified: string[]): number[] {
+        const result: number[] = new Array(modified.length);
+        let originalLine = 0;
+        let modifiedLine = 0;
+
+        for (const change of DiffUtils.diffLines(original, modified)) {
+            while (modifiedLine < change.modifiedStart) {
+                result[modifiedLine++] = originalLine++;
+            }
+            for (let i = 0; i < change.modifiedLength; i++) {
+                result[modifiedLine++] = -1;
+            }
+            originalLine = change.originalStart + change.originalLength;
+        }
+        while (modifiedLine < modified.length) {
+            result[modifiedLine++] = originalLine++;
+        }
+
+        return result;
+    }
+
+    /**
+     * 行尾显示的内容：相对时间和快照的标签
+     */
+    private createAnnotation(owner: HistoryEntry | undefined): string {
+        if (!owner) {
+            return '未保存到历史记录';
+        }
+        return owner.note ? `${Utils.formatRelativeTime(owner.timestamp)} · ${owner.note}` : Utils.formatRelativeTime(owner.timestamp);
+    }
+
+    /**
+     * 悬停内容：快照的时间、标签和 git 信息，以及打开差异的链接
+     */
+    private createHover(owner: HistoryEntry | undefined): vscode.MarkdownString {
+        if (!owner) {
+            return new vscode.MarkdownString('**本地历史**：该行的修改还没有保存到历史记录');
+        }
+
+        const compareWithPrevious = 'filelocalhistory.compareWithPreviousVersion';
+        const compareWithCurrent = 'filelocalhistory.compareWithCurrent';
+        const args = encodeURIComponent(JSON.stringify([owner]));
+
+        const hover = new vscode.MarkdownString();
+        hover.isTrusted = { enabledCommands: [compareWithPrevious, compareWithCurrent] };
+        hover.appendMarkdown(`**本地历史** ${Utils.formatTimestampForDisplay(owner.timestamp)}（${Utils.formatRelativeTime(owner.timestamp)}）\n\n`);
+        if (owner.note) {
+            hover.appendText(`标签: ${owner.note}`);
+            hover.appendMarkdown('\n\n');
+        }
+        if (owner.branch || owner.commit) {
+            hover.appendText(`分支: ${owner.branch || '(分离的 HEAD)'}${owner.commit ? ` @ ${owner.commit.substring(0, 7)}` : ''}`);
+            hover.appendMarkdown('\n\n');
+        }
+        hover.appendMarkdown(`[查看引入该行的修改](command:${compareWithPrevious}?${args}) · [与当前版本比较](command:${compareWithCurrent}?${args})`);
+        return hover;
+    }
+}
@@ -0,0 +1,298 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { DiffUtils, LineChange } from './diffUtils';
+import { Utils } from './utils';
+
+/**
+ * 差异块列表项
+ */
+interface HunkItem extends vscode.QuickPickItem {
+    change: LineChange;
+}
+
+/**
+ * 当前文档与快照的比较结果
+ * 差异中 original 一侧为当前文档，modified 一侧为快照
+ */
+interface DocumentDiff {
+    document: vscode.TextDocument;
+    version: number;               // 比较时文档的版本，文档之后被修改则差异不再有效
+    currentLines: string[];
+    snapshotLines: string[];
+    changes: LineChange[];
+}
+
+/**
+ * 部分恢复管理器
+ * 只将快照中的部分修改恢复到当前文件：逐个选择差异块恢复，或者只恢复编辑器中选中的行。
+ * 恢复通过一次 WorkspaceEdit 修改打开的文档，可以撤销，由用户决定是否保存
+ */
+export class PartialRestoreManager {
+    /**
+     * 恢复单个差异块的按钮
+     */
+    private static readonly RESTORE_BUTTON: vscode.QuickInputButton = {
+        iconPath: new vscode.ThemeIcon('discard'),
+        tooltip: '恢复此处修改'
+    };
+
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 列出快照与当前文件的差异块，选择要恢复的部分
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.restoreHunks', async (item: HistoryEntry | { entry: HistoryEntry }) => {
+                const entry = 'entry' in item ? item.entry : item;
+                const diff = await this.computeDiff(entry);
+                if (!diff) {
+                    return;
+                }
+
+                if (diff.changes.length === 0) {
+                    vscode.window.showInformationMessage('当前文件与该版本相同');
+                    return;
+                }
+
+                await this.showHunks(entry, diff);
+            })
+        );
+
+        // 将编辑器中选中的行恢复为某个历史版本中的内容
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.restoreSelection', async () => {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || editor.document.uri.scheme !== 'file') {
+                    vscode.window.showErrorMessage('没有打开的编辑器');
+                    return;
+                }
+
+                const entries = this.historyManager.getHistoryEntriesForFile(editor.document.uri.fsPath);
+                if (entries.length === 0) {
+                    vscode.window.showInformationMessage('该文件没有历史版本');
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(
+                    entries.map(entry => ({
+                        label: entry.label,
+                        description: entry.note,
+                        entry
+                    })),
+                    { placeHolder: '选择要从中恢复选中内容的历史版本' }
+                );
+
+                if (!selected) {
+                    return;
+                }
+
+                const diff = await this.computeDiff(selected.entry);
+                if (diff) {
+                    await this.restoreSelection(editor, diff);
+                }
+            })
+        );
+    }
+
+    /**
+     * 比较当前文档与快照，文件不存在或内容为二进制时提示并返回 undefined
+     */
+    private async computeDiff(entry: HistoryEntry): Promise<DocumentDiff | undefined> {
+        if (!fs.existsSync(entry.filePath)) {
+            vscode.window.showErrorMessage(`${path.basename(entry.filePath)} 已被删除，只能恢复整个文件`);
+            return undefined;
+        }
+
+        const content = this.historyManager.getHistoryFileContent(entry.historyFilePath);
+        if (!content || Utils.isBinaryContent(content)) {
+            vscode.window.showErrorMessage('该版本无法部分恢复');
+            return undefined;
+        }
+
+        const document = await vscode.workspace.openTextDocument(entry.filePath);
+        const version = document.version;
+        const currentLines = DiffUtils.splitLines(document.getText());
+        const snapshotLines = DiffUtils.splitLines(content.toString('utf8'));
+
+        return {
+            document,
+            version,
+            currentLines,
+            snapshotLines,
+            changes: DiffUtils.diffLines(currentLines, snapshotLines)
+        };
+    }
+
+    /**
+     * 列出差异块，选中时在编辑器中定位；可以逐个恢复，也可以多选后一起恢复
+     */
+    private async showHunks(entry: HistoryEntry, diff: DocumentDiff): Promise<void> {
+        const editor = await vscode.window.showTextDocument(diff.document, { preserveFocus: true, preview: false });
+
+        const quickPick = vscode.window.createQuickPick<HunkItem>();
+        quickPick.title = `部分恢复 ${path.basename(entry.filePath)} (${entry.label})`;
+        quickPick.placeholder = '选择要恢复的修改，或点击修改右侧的按钮单独恢复';
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = diff.changes.map(change => this.createHunkItem(diff, change));
+
+        quickPick.onDidChangeActive(([active]) => {
+            if (active) {
+                const range = this.getRange(diff, active.change.originalStart, active.change.originalStart + active.change.originalLength);
+                editor.selection = new vscode.Selection(range.start, range.end);
+                editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+            }
+        });
+
+        quickPick.onDidTriggerItemButton(async event => {
+            quickPick.hide();
+            await this.applyChanges(diff, [event.item.change]);
+        });
+
+        quickPick.onDidAccept(async () => {
+            const changes = quickPick.selectedItems.map(selected => selected.change);
+            quickPick.hide();
+            if (changes.length > 0) {
+                await this.applyChanges(diff, changes);
+            }
+        });
+
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    /**
+     * 差异块的显示内容：位置、恢复后删除和恢复的行数，以及修改内容的第一行
+     */
+    private createHunkItem(diff: DocumentDiff, change: LineChange): HunkItem {
+        const firstLine = change.originalStart + 1;
+        const lastLine = change.originalStart + change.originalLength;
+        const location = change.originalLength === 0
+            ? `第 ${change.originalStart} 行之后`
+            : (firstLine === lastLine ? `第 ${firstLine} 行` : `第 ${firstLine}-${lastLine} 行`);
+
+        const summary: string[] = [];
+        if (change.modifiedLength > 0) {
+            summary.push(`恢复 ${change.modifiedLength} 行`);
+        }
+        if (change.originalLength > 0) {
+            summary.push(`删除 ${change.originalLength} 行`);
+        }
+
+        const previewLine = change.modifiedLength > 0
+            ? '+ ' + diff.snapshotLines[change.modifiedStart]
+            : '- ' + diff.currentLines[change.originalStart];
+
+        return {
+            label: location,
+            description: summary.join('，'),
+            detail: previewLine.trim().substring(0, 200),
+            buttons: [PartialRestoreManager.RESTORE_BUTTON],
+            change
+        };
+    }
+
+    /**
+     * 恢复选中的行，与选区相交的差异块会被完整恢复
+     */
+    private async restoreSelection(editor: vscode.TextEditor, diff: DocumentDiff): Promise<void> {
+        if (!this.checkUnchanged(diff)) {
+            return;
+        }
+
+        // 选区结束于行首时不包含该行，没有选中内容时使用光标所在行
+        const selection = editor.selection;
+        let start = selection.start.line;
+        let end = selection.end.line + (selection.end.character > 0 || selection.isEmpty ? 1 : 0);
+
+        const changes = diff.changes.filter(change => {
+            const changeEnd = change.originalStart + change.originalLength;
+            return change.originalLength === 0
+                ? change.originalStart >= start && change.originalStart <= end
+                : change.originalStart < end && changeEnd > start;
+        });
+
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage('选中的内容与该版本相同');
+            return;
+        }
+
+        start = Math.min(start, changes[0].originalStart);
+        const last = changes[changes.length - 1];
+        end = Math.max(end, last.originalStart + last.originalLength);
+
+        // 起点按之前的差异累计的行数偏移换算到快照中，终点再加上范围内差异的行数变化
+        const snapshotStart = this.mapLine(diff.changes, start);
+        const snapshotEnd = snapshotStart + (end - start) +
+            changes.reduce((sum, change) => sum + change.modifiedLength - change.originalLength, 0);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(diff.document.uri, this.getRange(diff, start, end), diff.snapshotLines.slice(snapshotStart, snapshotEnd).join(''));
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('恢复选中内容失败');
+        }
+    }
+
+    /**
+     * 一次性恢复多个差异块，所有修改基于同一份原文，可以一起撤销
+     */
+    private async applyChanges(diff: DocumentDiff, changes: LineChange[]): Promise<void> {
+        if (!this.checkUnchanged(diff)) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const change of changes) {
+            edit.replace(
+                diff.document.uri,
+                this.getRange(diff, change.originalStart, change.originalStart + change.originalLength),
+                diff.snapshotLines.slice(change.modifiedStart, change.modifiedStart + change.modifiedLength).join('')
+            );
+        }
+
+        if (await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showInformationMessage(`已恢复 ${changes.length} 处修改，可以撤销或保存`);
+        } else {
+            vscode.window.showErrorMessage('恢复修改失败');
+        }
+    }
+
+    /**
+     * 检查文档在比较之后是否被修改，被修改时差异块的位置已经失效，提示用户重新执行
+     */
+    private checkUnchanged(diff: DocumentDiff): boolean {
+        if (diff.document.version !== diff.version) {
+            vscode.window.showWarningMessage(`${path.basename(diff.document.fileName)} 在选择期间已被修改，请重新执行部分恢复`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * 当前文档中第 startLine 行到第 endLine 行之前的范围，按字符偏移计算，兼容最后一行没有换行符的情况
+     */
+    private getRange(diff: DocumentDiff, startLine: number, endLine: number): vscode.Range {
+        const offsetOf = (line: number) => diff.currentLines.slice(0, line).reduce((sum, text) => sum + text.length, 0);
+        return new vscode.Range(diff.document.positionAt(offsetOf(startLine)), diff.document.positionAt(offsetOf(endLine)));
+    }
+
+    /**
+     * 将当前文档中不在差异块内的行号换算为快照中的行号，位于该行的插入不计入
+     */
+    private mapLine(changes: LineChange[], line: number): number {
+        let delta = 0;
+        for (const change of changes) {
+            if (change.originalStart + change.originalLength > line || (change.originalLength === 0 && change.originalStart >= line)) {
+                break;
+            }
+            delta += change.modifiedLength - change.originalLength;
+        }
+        return line + delta;
+    }
+}
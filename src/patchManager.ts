@@ -0,0 +1,325 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { HistoryEntry, HistoryManager } from './historyManager';
+import { FilePatch, PatchUtils } from './patchUtils';
+import { Utils } from './utils';
+
+/**
+ * 补丁管理器
+ * 将快照与当前版本、两个快照之间或一段时间以来整个项目的修改生成为补丁，也可以将补丁应用到当前文件
+ */
+export class PatchManager {
+    constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
+        this.registerCommands();
+    }
+
+    /**
+     * 注册命令
+     */
+    private registerCommands(): void {
+        // 生成快照到当前版本的补丁，多选两个快照时生成两者之间的补丁
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.createPatch', async (
+                item: HistoryEntry | { entry: HistoryEntry },
+                selectedItems?: { entry?: HistoryEntry }[]
+            ) => {
+                // 多选时分组项没有对应的历史记录
+                const selectedEntries = (selectedItems || [])
+                    .map(selected => selected.entry)
+                    .filter((entry): entry is HistoryEntry => !!entry);
+
+                let patch: string | undefined;
+                let name: string;
+                if (selectedEntries.length === 2) {
+                    const [older, newer] = selectedEntries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+                    patch = this.createEntryPatch(older, newer);
+                    name = `${path.basename(newer.filePath)}-${older.timestamp}-${newer.timestamp}.patch`;
+                } else {
+                    const entry = 'entry' in item ? item.entry : item;
+                    patch = this.createEntryPatch(entry, entry.filePath);
+                    name = `${path.basename(entry.filePath)}-${entry.timestamp}.patch`;
+                }
+
+                if (patch === undefined) {
+                    vscode.window.showErrorMessage('二进制文件无法生成补丁');
+                    return;
+                }
+                if (!patch) {
+                    vscode.window.showInformationMessage('两个版本的内容相同');
+                    return;
+                }
+
+                await this.outputPatch(patch, name);
+            })
+        );
+
+        // 生成自某个时间以来整个项目的补丁，在项目历史记录上执行时以该记录的时间为起点
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.createProjectPatch', async (item?: { entry: HistoryEntry }) => {
+                const since = item?.entry ? item.entry.timestamp : await this.pickSinceTimestamp();
+                if (!since) {
+                    return;
+                }
+
+                const { patch, fileCount, skipped } = this.createProjectPatch(since);
+                if (!patch) {
+                    vscode.window.showInformationMessage(`${Utils.formatTimestampForDisplay(since)} 以来没有可生成补丁的修改`);
+                    return;
+                }
+
+                if (skipped > 0) {
+                    vscode.window.showInformationMessage(`补丁包含 ${fileCount} 个文件，跳过了 ${skipped} 个二进制文件`);
+                }
+                await this.outputPatch(patch, `changes-since-${since}.patch`);
+            })
+        );
+
+        // 将补丁文件应用到当前文件
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.applyPatch', async (fileUri?: vscode.Uri) => {
+                const targetUri = fileUri || vscode.window.activeTextEditor?.document.uri;
+                if (!targetUri || targetUri.scheme !== 'file') {
+                    vscode.window.showErrorMessage('没有打开的编辑器');
+                    return;
+                }
+
+                const [patchUri] = await vscode.window.showOpenDialog({
+                    canSelectMany: false,
+                    filters: { '补丁文件': ['patch', 'diff'] },
+                    openLabel: '应用补丁'
+                }) || [];
+
+                if (!patchUri) {
+                    return;
+                }
+
+                await this.applyPatchFile(patchUri.fsPath, targetUri);
+            })
+        );
+    }
+
+    /**
+     * 生成快照到另一个快照或当前文件的补丁，当前文件不存在时生成删除文件的补丁
+     * 没有起始快照时以空内容为基准，生成新建文件的补丁。包含二进制内容时返回 undefined
+     */
+    private createEntryPatch(entry: HistoryEntry | null, target: HistoryEntry | string): string | undefined {
+        const oldContent = entry ? this.historyManager.getHistoryFileContent(entry.historyFilePath) : Buffer.alloc(0);
+        let newContent: Buffer | null;
+        let newPath: string;
+        if (typeof target === 'string') {
+            newContent = fs.existsSync(target) ? fs.readFileSync(target) : null;
+            newPath = newContent ? this.getPatchPath(target) : PatchUtils.NULL_PATH;
+        } else {
+            newContent = this.historyManager.getHistoryFileContent(target.historyFilePath);
+            newPath = this.getPatchPath(target.filePath);
+        }
+
+        if (!oldContent || Utils.isBinaryContent(oldContent) || (newContent && Utils.isBinaryContent(newContent))) {
+            return undefined;
+        }
+
+        return PatchUtils.createPatch(
+            entry ? this.getPatchPath(entry.recordedPath || entry.filePath) : PatchUtils.NULL_PATH,
+            newPath,
+            oldContent.toString('utf8'),
+            newContent ? newContent.toString('utf8') : ''
+        );
+    }
+
+    /**
+     * 生成自指定时间以来所有修改过的文件的补丁，未保存的草稿不作为基准
+     */
+    private createProjectPatch(since: string): { patch: string, fileCount: number, skipped: number } {
+        const entriesByFile = new Map<string, HistoryEntry[]>();
+        const { existing, deleted } = this.historyManager.getEntriesByExistence();
+        const allEntries = [...existing, ...deleted].filter(entry => !entry.draft && (!vscode.workspace.workspaceFolders?.length || Utils.getWorkspaceFolder(entry.filePath)));
+
+        for (const entry of allEntries) {
+            const entries = entriesByFile.get(entry.filePath) || [];
+            entries.push(entry);
+            entriesByFile.set(entry.filePath, entries);
+        }
+
+        const patches: string[] = [];
+        let skipped = 0;
+        for (const filePath of Array.from(entriesByFile.keys()).sort()) {
+            const baseline = PatchManager.findBaseline(entriesByFile.get(filePath)!, since);
+            if (baseline === undefined) {
+                continue;
+            }
+
+            const patch = this.createEntryPatch(baseline, filePath);
+            if (patch === undefined) {
+                skipped++;
+            } else if (patch) {
+                patches.push(patch);
+            }
+        }
+
+        return { patch: patches.join(''), fileCount: patches.length, skipped };
+    }
+
+    /**
+     * 找出文件生成项目补丁时的基准快照，即在指定时间点的最后一个快照
+     * 之前没有快照的文件是之后新建的，返回 null 表示以空内容为基准；之后没有快照，即没有修改时返回 undefined
+     */
+    public static findBaseline<T extends { timestamp: string }>(entries: T[], since: string): T | null | undefined {
+        let baseline: T | null = null;
+        let changed = false;
+        for (const entry of entries) {
+            if (entry.timestamp > since) {
+                changed = true;
+            } else if (!baseline || entry.timestamp > baseline.timestamp) {
+                baseline = entry;
+            }
+        }
+
+        return changed ? baseline : undefined;
+    }
+
+    /**
+     * 选择生成项目补丁的起始时间
+     */
+    private async pickSinceTimestamp(): Promise<string | undefined> {
+        const now = new Date();
+        const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+        const options: (vscode.QuickPickItem & { date?: Date })[] = [
+            { label: '最近 1 小时', date: hoursAgo(1) },
+            { label: '今天', date: startOfToday },
+            { label: '最近 24 小时', date: hoursAgo(24) },
+            { label: '最近 7 天', date: hoursAgo(24 * 7) },
+            { label: '自定义时间...' }
+        ];
+
+        const selected = await vscode.window.showQuickPick(options, { placeHolder: '生成自哪个时间以来的修改的补丁' });
+        if (!selected) {
+            return undefined;
+        }
+        if (selected.date) {
+            return Utils.formatTimestamp(selected.date);
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: '输入起始时间',
+            placeHolder: '例如：2024-01-15 14:30',
+            validateInput: value => isNaN(new Date(value).getTime()) ? '无法识别的时间' : undefined
+        });
+        return input ? Utils.formatTimestamp(new Date(input)) : undefined;
+    }
+
+    /**
+     * 选择补丁的输出方式：复制到剪贴板、保存为文件或在编辑器中打开
+     */
+    private async outputPatch(patch: string, defaultName: string): Promise<void> {
+        const selected = await vscode.window.showQuickPick([
+            { label: '$(clippy) 复制到剪贴板', action: 'copy' },
+            { label: '$(save) 保存为 .patch 文件', action: 'save' },
+            { label: '$(go-to-file) 在编辑器中打开', action: 'open' }
+        ], { placeHolder: '选择如何使用生成的补丁' });
+
+        if (!selected) {
+            return;
+        }
+
+        if (selected.action === 'copy') {
+            await vscode.env.clipboard.writeText(patch);
+            vscode.window.showInformationMessage('补丁已复制到剪贴板');
+        } else if (selected.action === 'save') {
+            const targetUri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '', defaultName)),
+                filters: { '补丁文件': ['patch', 'diff'] }
+            });
+            if (targetUri) {
+                fs.writeFileSync(targetUri.fsPath, patch);
+                vscode.window.showInformationMessage(`补丁已保存到 ${targetUri.fsPath}`);
+            }
+        } else {
+            const document = await vscode.workspace.openTextDocument({ content: patch, language: 'diff' });
+            await vscode.window.showTextDocument(document);
+        }
+    }
+
+    /**
+     * 将补丁应用到文件在编辑器中的内容，修改可以撤销，由用户决定是否保存
+     */
+    private async applyPatchFile(patchPath: string, targetUri: vscode.Uri): Promise<void> {
+        let filePatches: FilePatch[];
+        try {
+            filePatches = PatchUtils.parsePatch(fs.readFileSync(patchPath, 'utf8'));
+        } catch (error) {
+            console.error('读取补丁失败:', error);
+            vscode.window.showErrorMessage(`无法读取补丁: ${error}`);
+            return;
+        }
+
+        const filePatch = await this.pickFilePatch(filePatches, targetUri.fsPath);
+        if (!filePatch) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(targetUri);
+        const result = PatchUtils.applyPatch(document.getText(), filePatch);
+        if ('failedHunk' in result) {
+            vscode.window.showErrorMessage(`补丁无法应用到 ${path.basename(targetUri.fsPath)}: 第 ${result.failedHunk} 处修改与文件内容不匹配`);
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+            result.text
+        );
+
+        if (await vscode.workspace.applyEdit(edit)) {
+            await vscode.window.showTextDocument(document);
+            vscode.window.showInformationMessage(`已将补丁应用到 ${path.basename(targetUri.fsPath)}，可以撤销或保存修改`);
+        } else {
+            vscode.window.showErrorMessage('应用补丁失败');
+        }
+    }
+
+    /**
+     * 从补丁中找出对应目标文件的部分，补丁包含多个文件且无法按路径确定时由用户选择
+     */
+    private async pickFilePatch(filePatches: FilePatch[], filePath: string): Promise<FilePatch | undefined> {
+        const candidates = filePatches.filter(filePatch => filePatch.hunks.length > 0);
+        if (candidates.length === 0) {
+            vscode.window.showErrorMessage('补丁中没有可应用的修改');
+            return undefined;
+        }
+        if (candidates.length === 1) {
+            return candidates[0];
+        }
+
+        const patchPath = this.getPatchPath(filePath);
+        const matched = candidates.find(filePatch => filePatch.newPath === patchPath || filePatch.oldPath === patchPath) ||
+            candidates.find(filePatch => path.basename(filePatch.newPath) === path.basename(filePath));
+        if (matched) {
+            return matched;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            candidates.map(filePatch => ({
+                label: filePatch.newPath === PatchUtils.NULL_PATH ? filePatch.oldPath : filePatch.newPath,
+                description: `${filePatch.hunks.length} 处修改`,
+                filePatch
+            })),
+            { placeHolder: `选择要应用到 ${path.basename(filePath)} 的修改` }
+        );
+        return selected?.filePatch;
+    }
+
+    /**
+     * 补丁中的路径：相对于所在工作区文件夹，不在工作区中时为文件名
+     */
+    private getPatchPath(filePath: string): string {
+        const workspaceFolder = Utils.getWorkspaceFolder(filePath);
+        return workspaceFolder
+            ? path.relative(workspaceFolder.uri.fsPath, filePath).split(path.sep).join('/')
+            : path.basename(filePath);
+    }
+}
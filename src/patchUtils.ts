@@ -0,0 +1,233 @@
+import { DiffUtils } from './diffUtils';
+
+/**
+ * 补丁中的一个差异块，行号从 1 开始
+ */
+export interface PatchHunk {
+    oldStart: number;
+    oldLength: number;
+    newStart: number;
+    newLength: number;
+    lines: string[];       // 以 ' '、'-'、'+' 开头的行，不含换行符
+    noNewline: boolean[];  // 对应的行在文件末尾且没有换行符
+}
+
+/**
+ * 补丁中一个文件的修改
+ */
+export interface FilePatch {
+    oldPath: string;       // 修改前的路径，新建文件时为 /dev/null
+    newPath: string;       // 修改后的路径，删除文件时为 /dev/null
+    hunks: PatchHunk[];
+}
+
+/**
+ * 生成和应用统一格式（unified diff）补丁的工具类
+ */
+export class PatchUtils {
+    public static readonly NULL_PATH = '/dev/null';
+    private static readonly NO_NEWLINE = '\\ No newline at end of file';
+
+    /**
+     * 生成两个文本之间的补丁，内容相同时返回空字符串
+     * 路径为 /dev/null 时表示新建或删除文件，其余路径加上 a/、b/ 前缀，与 git 的格式一致
+     */
+    public static createPatch(oldPath: string, newPath: string, oldText: string, newText: string, context = 3): string {
+        const oldLines = DiffUtils.splitLines(oldText);
+        const newLines = DiffUtils.splitLines(newText);
+        const changes = DiffUtils.diffLines(oldLines, newLines);
+        if (changes.length === 0) {
+            return '';
+        }
+
+        const output = [
+            `--- ${oldPath === PatchUtils.NULL_PATH ? oldPath : 'a/' + oldPath}`,
+            `+++ ${newPath === PatchUtils.NULL_PATH ? newPath : 'b/' + newPath}`
+        ];
+
+        // 相距不超过两倍上下文的差异合并为一个差异块
+        let i = 0;
+        while (i < changes.length) {
+            let j = i;
+            while (j + 1 < changes.length &&
+                   changes[j + 1].originalStart - (changes[j].originalStart + changes[j].originalLength) <= context * 2) {
+                j++;
+            }
+
+            const first = changes[i];
+            const last = changes[j];
+            const oldStart = Math.max(first.originalStart - context, 0);
+            const oldEnd = Math.min(last.originalStart + last.originalLength + context, oldLines.length);
+            const newStart = first.modifiedStart - (first.originalStart - oldStart);
+            const newEnd = last.modifiedStart + last.modifiedLength + (oldEnd - last.originalStart - last.originalLength);
+
+            output.push(`@@ -${PatchUtils.formatRange(oldStart, oldEnd - oldStart)} +${PatchUtils.formatRange(newStart, newEnd - newStart)} @@`);
+
+            let oldLine = oldStart;
+            for (let k = i; k <= j; k++) {
+                const change = changes[k];
+                for (; oldLine < change.originalStart; oldLine++) {
+                    PatchUtils.pushLine(output, ' ', oldLines[oldLine]);
+                }
+                for (let l = 0; l < change.originalLength; l++) {
+                    PatchUtils.pushLine(output, '-', oldLines[change.originalStart + l]);
+                }
+                for (let l = 0; l < change.modifiedLength; l++) {
+                    PatchUtils.pushLine(output, '+', newLines[change.modifiedStart + l]);
+                }
+                oldLine = change.originalStart + change.originalLength;
+            }
+            for (; oldLine < oldEnd; oldLine++) {
+                PatchUtils.pushLine(output, ' ', oldLines[oldLine]);
+            }
+
+            i = j + 1;
+        }
+
+        return output.join('\n') + '\n';
+    }
+
+    /**
+     * 解析补丁，支持包含多个文件的补丁
+     */
+    public static parsePatch(patch: string): FilePatch[] {
+        const lines = patch.split('\n');
+        const files: FilePatch[] = [];
+        let current: FilePatch | undefined;
+        let hunk: PatchHunk | undefined;
+        let remainingOld = 0;
+        let remainingNew = 0;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+
+            if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+                const prefix = line[0] || ' ';
+                if (prefix === ' ' || prefix === '-' || prefix === '+') {
+                    hunk.lines.push(prefix + line.substring(1));
+                    hunk.noNewline.push(lines[i + 1]?.startsWith('\\'));
+                    if (prefix !== '+') {
+                        remainingOld--;
+                    }
+                    if (prefix !== '-') {
+                        remainingNew--;
+                    }
+                    continue;
+                }
+            }
+
+            if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+                current = {
+                    oldPath: PatchUtils.parsePath(line.substring(4)),
+                    newPath: PatchUtils.parsePath(lines[i + 1].substring(4)),
+                    hunks: []
+                };
+                files.push(current);
+                hunk = undefined;
+                i++;
+                continue;
+            }
+
+            const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+            if (header && current) {
+                hunk = {
+                    oldStart: parseInt(header[1], 10),
+                    oldLength: header[2] === undefined ? 1 : parseInt(header[2], 10),
+                    newStart: parseInt(header[3], 10),
+                    newLength: header[4] === undefined ? 1 : parseInt(header[4], 10),
+                    lines: [],
+                    noNewline: []
+                };
+                remainingOld = hunk.oldLength;
+                remainingNew = hunk.newLength;
+                current.hunks.push(hunk);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * 将补丁应用到文本上，差异块的位置有偏移时在附近查找匹配的位置
+     * 无法应用时返回出错的差异块序号（从 1 开始）
+     */
+    public static applyPatch(text: string, filePatch: FilePatch): { text: string } | { failedHunk: number } {
+        const lines = DiffUtils.splitLines(text);
+        const result: string[] = [];
+        let position = 0;
+        let offset = 0;
+
+        for (let h = 0; h < filePatch.hunks.length; h++) {
+            const hunk = filePatch.hunks[h];
+            const oldLines: string[] = [];
+            const newLines: string[] = [];
+            hunk.lines.forEach((line, index) => {
+                const content = line.substring(1) + (hunk.noNewline[index] ? '' : '\n');
+                if (line[0] !== '+') {
+                    oldLines.push(content);
+                }
+                if (line[0] !== '-') {
+                    newLines.push(content);
+                }
+            });
+
+            // 新建文件或插入到开头时起始行为 0
+            const expected = Math.max(hunk.oldLength === 0 ? hunk.oldStart : hunk.oldStart - 1, 0) + offset;
+            const start = PatchUtils.findLines(lines, oldLines, expected, position);
+            if (start < 0) {
+                return { failedHunk: h + 1 };
+            }
+
+            result.push(...lines.slice(position, start), ...newLines);
+            position = start + oldLines.length;
+            offset = start - (expected - offset);
+        }
+
+        result.push(...lines.slice(position));
+        return { text: result.join('') };
+    }
+
+    /**
+     * 从期望的位置开始向两侧查找与差异块匹配的位置，不会早于上一个差异块的结尾
+     */
+    private static findLines(lines: string[], target: string[], expected: number, minStart: number): number {
+        const maxStart = lines.length - target.length;
+        const matches = (start: number) => target.every((line, i) => lines[start + i] === line);
+
+        for (let distance = 0; expected - distance >= minStart || expected + distance <= maxStart; distance++) {
+            for (const start of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+                if (start >= minStart && start <= maxStart && matches(start)) {
+                    return start;
+                }
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * 补丁中的行号范围：长度为 0 时行号指向插入位置的前一行
+     */
+    private static formatRange(start: number, length: number): string {
+        return `${length === 0 ? start : start + 1},${length}`;
+    }
+
+    private static pushLine(output: string[], prefix: string, line: string): void {
+        if (line.endsWith('\n')) {
+            output.push(prefix + line.substring(0, line.length - 1));
+        } else {
+            output.push(prefix + line, PatchUtils.NO_NEWLINE);
+        }
+    }
+
+    /**
+     * 去掉路径中的 a/、b/ 前缀和可能附带的时间戳
+     */
+    private static parsePath(value: string): string {
+        const filePath = value.split('\t')[0].trim();
+        if (filePath === PatchUtils.NULL_PATH) {
+            return filePath;
+        }
+        return filePath.replace(/^[ab]\//, '');
+    }
+}
@@ -2,24 +2,39 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { HistoryEntry, HistoryManager } from './historyManager';
+import { HistoryStore } from './historyStore';
+import { Utils } from './utils';
+import { GitInfo } from './gitInfo';
 
 /**
  * 项目历史记录树项
  */
 class ProjectHistoryItem extends vscode.TreeItem {    constructor(
         public readonly entry: HistoryEntry,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly isDeleted: boolean = false
     ) {
         // 先调用父类构造函数 - 文件路径作为主标签
-        super(entry.description, collapsibleState);
+        // 已删除文件的版本显示在文件节点下，只需显示时间
+        super(isDeleted ? entry.label : entry.description, collapsibleState);
         
-        // 时间作为描述部分
-        this.description = entry.label;
+        // 时间和标签作为描述部分
+        if (isDeleted) {
+            this.description = entry.note || '';
+        } else {
+            this.description = entry.note ? `${entry.label} · ${entry.note}` : entry.label;
+        }
         
         // 悬浮窗保持多行显示
-        this.tooltip = `${entry.label}\n${entry.description}`;
+        this.tooltip = `${entry.label}\n${entry.description}` +
+            (entry.note ? `\n标签: ${entry.note}` : '') +
+            (entry.recordedPath ? `\n当时的路径: ${entry.recordedPath}` : '') +
+            (entry.draft ? '\n未保存的草稿' : '') +
+            (entry.branch ? `\n分支: ${entry.branch}` : '') +
+            (entry.commit ? `\n提交: ${entry.commit.substring(0, 7)}` : '') +
+            (entry.checkout ? '\n由切换分支等 git 操作产生' : '');
         
-        this.contextValue = 'projectHistoryItem';
+        this.contextValue = isDeleted ? 'deletedHistoryItem' : 'projectHistoryItem';
         this.resourceUri = vscode.Uri.file(entry.filePath);
         
         // 添加命令处理
@@ -29,8 +44,30 @@ class ProjectHistoryItem extends vscode.TreeItem {    constructor(
             arguments: [entry]
         };
         
-        // 设置图标
-        this.iconPath = vscode.ThemeIcon.File;
+        // 设置图标，带标签的快照使用标签图标，未保存的草稿使用编辑图标，切换分支产生的快照使用分支图标
+        this.iconPath = entry.note ? new vscode.ThemeIcon('tag') :
+            entry.draft ? new vscode.ThemeIcon('edit') :
+            entry.checkout ? new vscode.ThemeIcon('git-branch') : vscode.ThemeIcon.File;
+    }
+}
+
+/**
+ * 文件夹分组项
+ * 多根工作区中按工作区文件夹分组，显示所有项目时按快照所属的项目根目录分组
+ */
+class WorkspaceFolderItem extends vscode.TreeItem {
+    constructor(
+        public readonly folderKey: string,
+        label: string,
+        tooltip: string,
+        public readonly entries: HistoryEntry[],
+        public readonly deletedEntries: HistoryEntry[]
+    ) {
+        super(label, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = `${entries.length + deletedEntries.length} 条记录`;
+        this.tooltip = tooltip;
+        this.contextValue = 'workspaceFolder';
+        this.iconPath = new vscode.ThemeIcon(folderKey ? 'root-folder' : 'folder');
     }
 }
 
@@ -40,7 +77,8 @@ class ProjectHistoryItem extends vscode.TreeItem {    constructor(
 class TimeGroupItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
-        public readonly entries: HistoryEntry[]
+        public readonly entries: HistoryEntry[],
+        public readonly folderKey?: string
     ) {
         super(label, vscode.TreeItemCollapsibleState.Expanded);
         this.contextValue = 'timeGroup';
@@ -49,19 +87,77 @@ class TimeGroupItem extends vscode.TreeItem {
     }
 }
 
+/**
+ * 已删除文件分组项
+ */
+class DeletedFilesGroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly files: Map<string, HistoryEntry[]>,
+        public readonly folderKey?: string
+    ) {
+        super(`已删除的文件 (${files.size})`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'deletedFilesGroup';
+        this.tooltip = '已被删除但仍有历史记录的文件';
+        this.iconPath = new vscode.ThemeIcon('trash');
+    }
+}
+
+/**
+ * 已删除的文件项，子项为该文件的各个历史版本
+ */
+class DeletedFileItem extends vscode.TreeItem {
+    constructor(
+        public readonly filePath: string,
+        public readonly entries: HistoryEntry[]
+    ) {
+        super(entries[0].description, vscode.TreeItemCollapsibleState.Collapsed);
+        this.description = `${entries.length} 个版本`;
+        this.tooltip = `${filePath}\n最后一个版本: ${entries[0].label}`;
+        this.contextValue = 'deletedFile';
+        this.resourceUri = vscode.Uri.file(filePath);
+        this.iconPath = vscode.ThemeIcon.File;
+    }
+}
+
+/**
+ * 项目历史记录视图中的树项
+ */
+type ProjectHistoryTreeItem = ProjectHistoryItem | WorkspaceFolderItem | TimeGroupItem | DeletedFilesGroupItem | DeletedFileItem;
+
+/**
+ * 按文件或日期筛选快照，例如从活动统计面板中点击某个文件或某一天
+ */
+export interface EntryFilter {
+    filePath?: string;     // 只显示该文件的快照
+    date?: string;         // 只显示这一天的快照，格式为 YYYY-MM-DD
+    label: string;         // 显示在视图标题旁的筛选说明
+}
+
 /**
  * 项目历史记录树数据提供者
  */
-export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<ProjectHistoryItem | TimeGroupItem> {
-    private _onDidChangeTreeData = new vscode.EventEmitter<ProjectHistoryItem | TimeGroupItem | undefined>();
+export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<ProjectHistoryTreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ProjectHistoryTreeItem | undefined>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
     
     private historyEntries: HistoryEntry[] = [];
     private filteredEntries: HistoryEntry[] = [];
+    private deletedEntries: HistoryEntry[] = [];
+    private filteredDeletedEntries: HistoryEntry[] = [];
     private filterPattern: string | undefined;
+    private branchFilter: string | undefined;
+    private sinceLastCommit = false;
+    private entryFilter: EntryFilter | undefined;
+    private showAllProjects = false;
     
-    constructor(private historyManager: HistoryManager) {
-        this.refreshEntries();
+    constructor(private historyManager: HistoryManager) {}
+    
+    /**
+     * 切换是否显示所有项目的历史记录，默认只显示当前工作区中的文件
+     */
+    setShowAllProjects(showAllProjects: boolean): void {
+        this.showAllProjects = showAllProjects;
+        this.refresh();
     }
     
     /**
@@ -81,44 +177,132 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
         this._onDidChangeTreeData.fire(undefined);
     }
     
+    /**
+     * 只显示在指定分支上产生的快照，传入 undefined 时显示所有分支
+     */
+    setBranchFilter(branch: string | undefined): void {
+        this.branchFilter = branch;
+        this.applyFilter();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+    
+    /**
+     * 只显示自上次提交以来的本地修改，即在当前 HEAD 提交上产生、且不是由切换分支产生的快照
+     */
+    setSinceLastCommit(sinceLastCommit: boolean): void {
+        this.sinceLastCommit = sinceLastCommit;
+        this.applyFilter();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+    
+    /**
+     * 只显示指定文件或指定日期的快照，传入 undefined 时显示全部
+     */
+    setEntryFilter(entryFilter: EntryFilter | undefined): void {
+        this.entryFilter = entryFilter;
+        this.applyFilter();
+        this._onDidChangeTreeData.fire(undefined);
+    }
+    
+    /**
+     * 获取历史记录中出现过的所有分支
+     */
+    getBranches(): string[] {
+        const branches = new Set<string>();
+        for (const entry of [...this.historyEntries, ...this.deletedEntries]) {
+            if (entry.branch) {
+                branches.add(entry.branch);
+            }
+        }
+        return Array.from(branches).sort();
+    }
+    
     /**
      * 应用筛选条件
      */
     private applyFilter(): void {
-        if (!this.filterPattern) {
+        if (!this.filterPattern && this.branchFilter === undefined && !this.sinceLastCommit && !this.entryFilter) {
             this.filteredEntries = [...this.historyEntries];
+            this.filteredDeletedEntries = [...this.deletedEntries];
             return;
         }
         
-        const lowerPattern = this.filterPattern.toLowerCase();
-        this.filteredEntries = this.historyEntries.filter(entry => 
+        const lowerPattern = this.filterPattern?.toLowerCase();
+        const matchesPattern = (entry: HistoryEntry) => !lowerPattern ||
             entry.description.toLowerCase().includes(lowerPattern) ||
-            path.basename(entry.filePath).toLowerCase().includes(lowerPattern)
-        );
+            path.basename(entry.filePath).toLowerCase().includes(lowerPattern) ||
+            (entry.note !== undefined && entry.note.toLowerCase().includes(lowerPattern));
+        
+        // 同一目录下的文件属于同一个仓库，只读取一次 HEAD
+        const headCommits = new Map<string, string | undefined>();
+        const getHeadCommit = (filePath: string) => {
+            const dir = path.dirname(filePath);
+            if (!headCommits.has(dir)) {
+                headCommits.set(dir, GitInfo.getHead(filePath)?.commit);
+            }
+            return headCommits.get(dir);
+        };
+        
+        const entryFilter = this.entryFilter;
+        const matches = (entry: HistoryEntry) => matchesPattern(entry) &&
+            (!entryFilter?.filePath || entry.filePath === entryFilter.filePath) &&
+            (!entryFilter?.date || entry.timestamp.startsWith(entryFilter.date + '_')) &&
+            (this.branchFilter === undefined || entry.branch === this.branchFilter) &&
+            (!this.sinceLastCommit || (!entry.checkout && !!entry.commit && entry.commit === getHeadCommit(entry.filePath)));
+        
+        this.filteredEntries = this.historyEntries.filter(matches);
+        this.filteredDeletedEntries = this.deletedEntries.filter(matches);
     }
     
     /**
      * 刷新历史记录条目
      */
     private refreshEntries(): void {
-        this.historyEntries = this.historyManager.getAllHistoryEntries();
+        const { existing, deleted } = this.historyManager.getEntriesByExistence();
+        this.historyEntries = existing;
+        this.deletedEntries = deleted;
+        
+        // 所有项目共用同一个存储目录，默认只显示当前工作区文件夹中的文件
+        if (!this.showAllProjects && vscode.workspace.workspaceFolders?.length) {
+            const inWorkspace = (entry: HistoryEntry) => Utils.getWorkspaceFolder(entry.filePath) !== undefined;
+            this.historyEntries = this.historyEntries.filter(inWorkspace);
+            this.deletedEntries = this.deletedEntries.filter(inWorkspace);
+        }
+        
         this.applyFilter();
     }
     
     /**
      * 获取树项元素
      */
-    getTreeItem(element: ProjectHistoryItem | TimeGroupItem): vscode.TreeItem {
+    getTreeItem(element: ProjectHistoryTreeItem): vscode.TreeItem {
         return element;
     }
     
     /**
      * 获取父树项，用于支持 reveal 方法
      */
-    getParent(element: ProjectHistoryItem | TimeGroupItem): vscode.ProviderResult<TimeGroupItem> {
+    getParent(element: ProjectHistoryTreeItem): vscode.ProviderResult<ProjectHistoryTreeItem> {
+        if (element instanceof TimeGroupItem || element instanceof DeletedFilesGroupItem) {
+            return element.folderKey !== undefined ? this.createFolderItem(element.folderKey) : null;
+        }
+        
+        if (element instanceof DeletedFileItem) {
+            const folderKey = this.getFolderKey(element.entries[0]);
+            return this.createDeletedFilesGroup(this.getEntriesInFolder(this.filteredDeletedEntries, folderKey), folderKey);
+        }
+        
+        if (element instanceof ProjectHistoryItem && element.isDeleted) {
+            const folderKey = this.getFolderKey(element.entry);
+            const deletedEntries = this.getEntriesInFolder(this.filteredDeletedEntries, folderKey);
+            const entries = this.createDeletedFilesGroup(deletedEntries, folderKey)?.files.get(element.entry.filePath);
+            return entries ? new DeletedFileItem(element.entry.filePath, entries) : null;
+        }
+        
         if (element instanceof ProjectHistoryItem) {
             // 返回 item 所属的时间组
-            for (const group of this.createTimeGroups()) {
+            const folderKey = this.getFolderKey(element.entry);
+            for (const group of this.createTimeGroups(this.getEntriesInFolder(this.filteredEntries, folderKey), folderKey)) {
                 if (group.entries.some(entry => 
                     entry.historyFilePath === element.entry.historyFilePath)) {
                     return group;
@@ -133,16 +317,40 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
     /**
      * 获取子树项
      */
-    getChildren(element?: ProjectHistoryItem | TimeGroupItem): Thenable<(ProjectHistoryItem | TimeGroupItem)[]> {
-        if (this.filteredEntries.length === 0) {
+    getChildren(element?: ProjectHistoryTreeItem): Thenable<ProjectHistoryTreeItem[]> {
+        if (this.filteredEntries.length === 0 && this.filteredDeletedEntries.length === 0) {
             return Promise.resolve([]);
         }
         
-        // 根节点，按时间块分组
+        // 根节点，多根工作区中先按工作区文件夹分组，显示所有项目时按项目分组
         if (!element) {
-            // 创建时间分组
-            const timeGroups = this.createTimeGroups();
-            return Promise.resolve(timeGroups);
+            if (this.isGroupedByFolder()) {
+                return Promise.resolve(this.createFolderItems());
+            }
+            return Promise.resolve(this.createGroups(this.filteredEntries, this.filteredDeletedEntries));
+        }
+        
+        // 工作区文件夹下的历史记录
+        if (element instanceof WorkspaceFolderItem) {
+            return Promise.resolve(this.createGroups(element.entries, element.deletedEntries, element.folderKey));
+        }
+        
+        // 已删除的文件列表
+        if (element instanceof DeletedFilesGroupItem) {
+            return Promise.resolve(
+                Array.from(element.files.entries())
+                    .map(([filePath, entries]) => new DeletedFileItem(filePath, entries))
+                    .sort((a, b) => (a.label as string).localeCompare(b.label as string))
+            );
+        }
+        
+        // 已删除文件的各个版本
+        if (element instanceof DeletedFileItem) {
+            return Promise.resolve(
+                element.entries.map(entry =>
+                    new ProjectHistoryItem(entry, vscode.TreeItemCollapsibleState.None, true)
+                )
+            );
         }
         
         // 时间组下的历史记录项
@@ -163,12 +371,129 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
         
         return Promise.resolve([]);
     }
-      /**
+    /**
+     * 显示所有项目或工作区包含多个文件夹时按文件夹分组
+     */
+    private isGroupedByFolder(): boolean {
+        return this.showAllProjects || (vscode.workspace.workspaceFolders?.length || 0) > 1;
+    }
+    
+    /**
+     * 获取历史记录所属分组的键，不分组时为 undefined
+     * 显示所有项目时为快照所属的项目根目录，否则为文件所在的工作区文件夹，未知时为空字符串
+     */
+    private getFolderKey(entry: HistoryEntry): string | undefined {
+        if (!this.isGroupedByFolder()) {
+            return undefined;
+        }
+        
+        if (this.showAllProjects) {
+            return entry.workspace || '';
+        }
+        
+        return Utils.getWorkspaceFolder(entry.filePath)?.uri.fsPath || '';
+    }
+    
+    /**
+     * 筛选属于指定分组的条目
+     */
+    private getEntriesInFolder(entries: HistoryEntry[], folderKey: string | undefined): HistoryEntry[] {
+        if (folderKey === undefined) {
+            return entries;
+        }
+        
+        return entries.filter(entry => this.getFolderKey(entry) === folderKey);
+    }
+    
+    /**
+     * 创建工作区文件夹分组项
+     */
+    private createFolderItem(folderKey: string): WorkspaceFolderItem {
+        const folder = vscode.workspace.workspaceFolders?.find(f => f.uri.fsPath === folderKey);
+        
+        let label: string;
+        let tooltip: string;
+        if (folder) {
+            label = folder.name;
+            tooltip = this.showAllProjects ? `${folderKey}\n当前工作区` : folderKey;
+        } else if (folderKey) {
+            label = path.basename(folderKey);
+            tooltip = folderKey;
+        } else {
+            label = this.showAllProjects ? '未知项目' : '工作区之外';
+            tooltip = this.showAllProjects ? '没有记录所属项目的历史记录' : '不在任何工作区文件夹中的文件';
+        }
+        
+        return new WorkspaceFolderItem(
+            folderKey,
+            label,
+            tooltip,
+            this.getEntriesInFolder(this.filteredEntries, folderKey),
+            this.getEntriesInFolder(this.filteredDeletedEntries, folderKey)
+        );
+    }
+    
+    /**
+     * 创建文件夹分组
+     * 当前工作区的文件夹按顺序排在前面，其他项目按名称排序，未知的分组放在最后
+     */
+    private createFolderItems(): WorkspaceFolderItem[] {
+        const folderKeys = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+        
+        if (this.showAllProjects) {
+            const otherKeys = new Set<string>();
+            for (const entry of [...this.filteredEntries, ...this.filteredDeletedEntries]) {
+                const folderKey = entry.workspace || '';
+                if (folderKey && !folderKeys.includes(folderKey)) {
+                    otherKeys.add(folderKey);
+                }
+            }
+            folderKeys.push(...Array.from(otherKeys).sort((a, b) => path.basename(a).localeCompare(path.basename(b))));
+        }
+        folderKeys.push('');
+        
+        return folderKeys
+            .map(folderKey => this.createFolderItem(folderKey))
+            .filter(item => item.entries.length > 0 || item.deletedEntries.length > 0);
+    }
+    
+    /**
+     * 按时间块分组，已删除的文件放在最后
+     */
+    private createGroups(entries: HistoryEntry[], deletedEntries: HistoryEntry[], folderKey?: string): ProjectHistoryTreeItem[] {
+        const items: ProjectHistoryTreeItem[] = this.createTimeGroups(entries, folderKey);
+        const deletedGroup = this.createDeletedFilesGroup(deletedEntries, folderKey);
+        if (deletedGroup) {
+            items.push(deletedGroup);
+        }
+        return items;
+    }
+    
+    /**
+     * 创建已删除文件分组，没有已删除的文件时返回 undefined
+     */
+    private createDeletedFilesGroup(deletedEntries: HistoryEntry[], folderKey?: string): DeletedFilesGroupItem | undefined {
+        if (deletedEntries.length === 0) {
+            return undefined;
+        }
+        
+        // 按文件分组，条目已按时间逆序排列
+        const files = new Map<string, HistoryEntry[]>();
+        for (const entry of deletedEntries) {
+            const entries = files.get(entry.filePath) || [];
+            entries.push(entry);
+            files.set(entry.filePath, entries);
+        }
+        
+        return new DeletedFilesGroupItem(files, folderKey);
+    }
+    
+    /**
      * 创建时间分组
      */
-    private createTimeGroups(): TimeGroupItem[] {
+    private createTimeGroups(filteredEntries: HistoryEntry[], folderKey?: string): TimeGroupItem[] {
         // 如果没有历史记录，显示提示信息
-        if (this.filteredEntries.length === 0) {
+        if (filteredEntries.length === 0) {
             return [];
         }
         
@@ -199,7 +524,7 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
         const thisMonthStart = new Date(today);
         thisMonthStart.setDate(1);
           // 为每个历史记录条目分配时间组
-        for (const entry of this.filteredEntries) {
+        for (const entry of filteredEntries) {
             const entryDate = this.getDateFromTimestamp(entry.timestamp);
             
             let timeGroup: string;
@@ -241,7 +566,7 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
             if (entries && entries.length > 0) {
                 // 标记该组的项目数量
                 const groupLabel = `${groupName} (${entries.length})`;
-                items.push(new TimeGroupItem(groupLabel, entries));
+                items.push(new TimeGroupItem(groupLabel, entries, folderKey));
                 timeGroups.delete(groupName);
             }
         }
@@ -253,7 +578,7 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
         for (const [groupName, entries] of monthGroups) {
             // 标记该组的项目数量
             const groupLabel = `${groupName} (${entries.length})`;
-            items.push(new TimeGroupItem(groupLabel, entries));
+            items.push(new TimeGroupItem(groupLabel, entries, folderKey));
         }
         
         return items;
@@ -279,8 +604,12 @@ export class ProjectHistoryViewProvider implements vscode.TreeDataProvider<Proje
  * 项目历史记录视图管理器
  */
 export class ProjectHistoryViewManager {
-    private projectHistoryView: vscode.TreeView<ProjectHistoryItem | TimeGroupItem>;
+    private projectHistoryView: vscode.TreeView<ProjectHistoryTreeItem>;
     private projectHistoryViewProvider: ProjectHistoryViewProvider;
+    private showAllProjects = false;
+    private branchFilter: string | undefined;
+    private sinceLastCommit = false;
+    private entryFilter: EntryFilter | undefined;
     
     constructor(private context: vscode.ExtensionContext, private historyManager: HistoryManager) {
         this.projectHistoryViewProvider = new ProjectHistoryViewProvider(historyManager);
@@ -297,8 +626,13 @@ export class ProjectHistoryViewManager {
         // 注册命令
         this.registerCommands();
         
-        // 初始时自动刷新项目历史视图
-        this.projectHistoryViewProvider.refresh();
+        // 恢复上次选择的显示范围，同时加载项目历史记录
+        this.setShowAllProjects(context.workspaceState.get<boolean>('filelocalhistory.showAllProjects', false));
+        
+        // 工作区文件夹变化时重新分组
+        context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this.projectHistoryViewProvider.refresh();
+        }));
     }
     
     /**
@@ -320,11 +654,156 @@ export class ProjectHistoryViewManager {
             })
         );
         
+        // 显示所有项目的历史记录
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.showAllProjects', () => {
+                this.setShowAllProjects(true);
+            })
+        );
+        
+        // 只显示当前工作区的历史记录
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.showCurrentWorkspace', () => {
+                this.setShowAllProjects(false);
+            })
+        );
+        
+        // 在项目历史记录中只显示指定文件或日期的快照
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.showEntriesInProjectView', (entryFilter: EntryFilter) => {
+                this.setEntryFilter(entryFilter);
+                this.projectHistoryViewProvider.refresh();
+                this.showProjectHistoryView();
+            })
+        );
+        
+        // 清除文件或日期的筛选
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.clearEntryFilter', () => {
+                this.setEntryFilter(undefined);
+            })
+        );
+        
+        // 按分支筛选项目历史记录
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.filterByBranch', async () => {
+                const branches = this.projectHistoryViewProvider.getBranches();
+                if (branches.length === 0) {
+                    vscode.window.showInformationMessage('历史记录中没有分支信息');
+                    return;
+                }
+                
+                const selected = await vscode.window.showQuickPick(
+                    [
+                        { label: '$(list-flat) 所有分支', branch: undefined },
+                        ...branches.map(branch => ({
+                            label: `$(git-branch) ${branch}`,
+                            description: branch === this.branchFilter ? '当前筛选' : '',
+                            branch
+                        }))
+                    ],
+                    { placeHolder: '选择要显示的分支' }
+                );
+                
+                if (selected) {
+                    this.branchFilter = selected.branch;
+                    this.projectHistoryViewProvider.setBranchFilter(selected.branch);
+                    this.updateGitFilter();
+                }
+            })
+        );
+        
+        // 只显示自上次提交以来的本地修改
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.showEditsSinceLastCommit', () => {
+                this.sinceLastCommit = true;
+                this.projectHistoryViewProvider.setSinceLastCommit(true);
+                this.updateGitFilter();
+                this.showProjectHistoryView();
+            })
+        );
+        
+        // 清除分支和提交的筛选
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.clearGitFilter', () => {
+                this.branchFilter = undefined;
+                this.sinceLastCommit = false;
+                this.projectHistoryViewProvider.setBranchFilter(undefined);
+                this.projectHistoryViewProvider.setSinceLastCommit(false);
+                this.updateGitFilter();
+            })
+        );
+        
+        // 重建历史记录索引
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.rebuildIndex', async () => {
+                const count = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: '正在重建历史记录索引...'
+                }, async () => this.historyManager.rebuildIndex());
+                
+                this.projectHistoryViewProvider.refresh();
+                vscode.window.showInformationMessage(`已重建历史记录索引，共 ${count} 条记录`);
+            })
+        );
+        
+        // 在全局存储和工作区存储之间迁移历史记录
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.migrateStorage', async () => {
+                const folder = await vscode.window.showWorkspaceFolderPick({
+                    placeHolder: '选择要迁移历史记录的工作区文件夹'
+                });
+                
+                if (!folder) {
+                    return;
+                }
+                
+                const current = Utils.getConfiguration(folder.uri.fsPath).get<string>('storageLocation', 'global');
+                const options = [
+                    {
+                        label: '迁移到工作区',
+                        description: current === 'workspace' ? '当前设置' : '',
+                        detail: `将全局存储中该文件夹内文件的历史记录移动到 ${path.join(folder.name, HistoryStore.WORKSPACE_DIR_NAME)}`,
+                        toWorkspace: true
+                    },
+                    {
+                        label: '迁移到全局存储',
+                        description: current === 'global' ? '当前设置' : '',
+                        detail: `将 ${path.join(folder.name, HistoryStore.WORKSPACE_DIR_NAME)} 中的历史记录移动到扩展的全局存储`,
+                        toWorkspace: false
+                    }
+                ];
+                
+                const selected = await vscode.window.showQuickPick(options, {
+                    placeHolder: `迁移 ${folder.name} 的历史记录`
+                });
+                
+                if (!selected) {
+                    return;
+                }
+                
+                const count = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: '正在迁移历史记录...'
+                }, async () => this.historyManager.migrateStorage(folder.uri.fsPath, selected.toWorkspace));
+                
+                // 之后的快照保存到迁移后的位置
+                await vscode.workspace.getConfiguration('filelocalhistory', folder.uri).update(
+                    'storageLocation',
+                    selected.toWorkspace ? 'workspace' : 'global',
+                    vscode.ConfigurationTarget.WorkspaceFolder
+                );
+                
+                this.projectHistoryViewProvider.refresh();
+                vscode.window.showInformationMessage(`已将 ${count} 条历史记录${selected.label}`);
+            })
+        );
+        
         // 筛选项目历史记录
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.filterProjectHistory', async () => {
                 const filterPattern = await vscode.window.showInputBox({
-                    placeHolder: '输入文件名或路径进行筛选',
+                    placeHolder: '输入文件名、路径或标签进行筛选',
                     prompt: '留空将显示所有历史记录'
                 });
                 
@@ -333,13 +812,61 @@ export class ProjectHistoryViewManager {
             })
         );
         
+        // 重新创建已删除的文件
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand('filelocalhistory.recreateFile', async (item: DeletedFileItem | ProjectHistoryItem) => {
+                // 在文件节点上执行时使用最后一个版本
+                const entry = item instanceof DeletedFileItem ? item.entries[0] : item.entry;
+                
+                const options = [
+                    { label: '恢复到原路径', description: entry.description, target: 'original' },
+                    { label: '恢复到其他位置...', target: 'other' }
+                ];
+                const selected = await vscode.window.showQuickPick(options, {
+                    placeHolder: `恢复 ${path.basename(entry.filePath)} (${entry.label})`
+                });
+                
+                if (!selected) {
+                    return;
+                }
+                
+                let targetPath = entry.filePath;
+                if (selected.target === 'other') {
+                    const uri = await vscode.window.showSaveDialog({
+                        defaultUri: vscode.Uri.file(entry.filePath),
+                        title: '选择恢复位置'
+                    });
+                    if (!uri) {
+                        return;
+                    }
+                    targetPath = uri.fsPath;
+                } else if (fs.existsSync(targetPath)) {
+                    const choice = await vscode.window.showWarningMessage(
+                        `${targetPath} 已存在，是否覆盖？`,
+                        { modal: true },
+                        '覆盖'
+                    );
+                    if (choice !== '覆盖') {
+                        return;
+                    }
+                }
+                
+                if (!await this.historyManager.restoreHistory(entry, targetPath)) {
+                    vscode.window.showErrorMessage(`恢复 ${path.basename(entry.filePath)} 失败`);
+                    return;
+                }
+                
+                this.projectHistoryViewProvider.refresh();
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(targetPath));
+            })
+        );
+        
         // 打开文件
         this.context.subscriptions.push(
             vscode.commands.registerCommand('filelocalhistory.openFile', async (item: ProjectHistoryItem) => {
                 const filePath = item.entry.filePath;
                 if (fs.existsSync(filePath)) {
-                    const document = await vscode.workspace.openTextDocument(filePath);
-                    await vscode.window.showTextDocument(document);
+                    await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath));
                 } else {
                     vscode.window.showErrorMessage(`文件 ${filePath} 不存在`);
                 }
@@ -358,7 +885,60 @@ export class ProjectHistoryViewManager {
                 }
             })
         );
-    }    /**
+    }
+
+    /**
+     * 切换项目历史记录视图的显示范围
+     */
+    private setShowAllProjects(showAllProjects: boolean): void {
+        this.context.workspaceState.update('filelocalhistory.showAllProjects', showAllProjects);
+        vscode.commands.executeCommand('setContext', 'filelocalhistory.showAllProjects', showAllProjects);
+        
+        this.showAllProjects = showAllProjects;
+        this.updateDescription();
+        this.projectHistoryViewProvider.setShowAllProjects(showAllProjects);
+    }
+
+    /**
+     * 更新分支和提交筛选的状态，有筛选时在视图标题栏显示清除按钮
+     */
+    private updateGitFilter(): void {
+        vscode.commands.executeCommand('setContext', 'filelocalhistory.gitFilterActive',
+            this.branchFilter !== undefined || this.sinceLastCommit);
+        this.updateDescription();
+    }
+
+    /**
+     * 设置文件或日期的筛选，有筛选时在视图标题栏显示清除按钮
+     */
+    private setEntryFilter(entryFilter: EntryFilter | undefined): void {
+        this.entryFilter = entryFilter;
+        this.projectHistoryViewProvider.setEntryFilter(entryFilter);
+        vscode.commands.executeCommand('setContext', 'filelocalhistory.entryFilterActive', !!entryFilter);
+        this.updateDescription();
+    }
+
+    /**
+     * 在视图标题旁显示当前的显示范围和筛选条件
+     */
+    private updateDescription(): void {
+        const parts: string[] = [];
+        if (this.showAllProjects) {
+            parts.push('所有项目');
+        }
+        if (this.branchFilter !== undefined) {
+            parts.push(`分支: ${this.branchFilter}`);
+        }
+        if (this.sinceLastCommit) {
+            parts.push('自上次提交以来');
+        }
+        if (this.entryFilter) {
+            parts.push(this.entryFilter.label);
+        }
+        this.projectHistoryView.description = parts.length > 0 ? parts.join(' · ') : undefined;
+    }
+
+    /**
      * 显示项目历史记录视图
      */
     private showProjectHistoryView(): void {
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BlobStore } from '../blobStore';
+
+suite('BlobStore', () => {
+    let basePath: string;
+    let store: BlobStore;
+
+    setup(() => {
+        basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'filelocalhistory-'));
+        store = new BlobStore(basePath);
+    });
+
+    teardown(() => {
+        fs.rmSync(basePath, { recursive: true, force: true });
+    });
+
+    test('写入后可以按哈希读回相同的内容', () => {
+        const content = Buffer.from('hello\nworld\n');
+        const hash = store.write(content);
+
+        assert.strictEqual(hash, BlobStore.hashContent(content));
+        assert.ok(store.has(hash));
+        assert.deepStrictEqual(store.read(hash), content);
+    });
+
+    test('相同内容只保存一份', () => {
+        const first = store.write(Buffer.from('same'));
+        const second = store.write(Buffer.from('same'));
+
+        assert.strictEqual(first, second);
+        assert.strictEqual(fs.readdirSync(path.join(basePath, BlobStore.DIR_NAME, first.substring(0, 2))).length, 1);
+    });
+
+    test('读取不存在的内容返回 null', () => {
+        assert.strictEqual(store.read(BlobStore.hashContent(Buffer.from('missing'))), null);
+    });
+
+    test('清理时只保留被引用的内容', () => {
+        const kept = store.write(Buffer.from('kept'));
+        const removed = store.write(Buffer.from('removed'));
+
+        assert.strictEqual(store.prune(new Set([kept])), 1);
+        assert.ok(store.has(kept));
+        assert.ok(!store.has(removed));
+    });
+
+    test('清理时只删除中断写入留下的旧临时文件', () => {
+        const hash = store.write(Buffer.from('content'));
+        const prefixDir = path.join(basePath, BlobStore.DIR_NAME, hash.substring(0, 2));
+        const staleFile = path.join(prefixDir, `${hash}.z.1.tmp`);
+        const writingFile = path.join(prefixDir, `${hash}.z.2.tmp`);
+        fs.writeFileSync(staleFile, 'stale');
+        fs.writeFileSync(writingFile, 'writing');
+        const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        fs.utimesSync(staleFile, hourAgo, hourAgo);
+
+        assert.strictEqual(store.prune(new Set([hash])), 1);
+        assert.ok(!fs.existsSync(staleFile));
+        assert.ok(fs.existsSync(writingFile));
+    });
+});
+
+suite('BlobStore 增量存储', () => {
+    let basePath: string;
+    let store: BlobStore;
+
+    /**
+     * 生成足够大的文本，使增量明显小于完整内容
+     */
+    const createText = (version: number) => Array.from({ length: 200 }, (_, i) =>
+        i === 100 ? `changed in version ${version}\n` : `unchanged line ${i}\n`
+    ).join('');
+
+    setup(() => {
+        basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'filelocalhistory-'));
+        store = new BlobStore(basePath);
+    });
+
+    teardown(() => {
+        fs.rmSync(basePath, { recursive: true, force: true });
+    });
+
+    test('旧版本保存为增量后仍能还原原始内容', () => {
+        const oldContent = Buffer.from(createText(1));
+        const oldHash = store.write(oldContent);
+        const newHash = store.write(Buffer.from(createText(2)));
+
+        assert.ok(store.storeAsDelta(oldHash, newHash));
+        assert.ok(store.isDelta(oldHash));
+        assert.ok(!store.isDelta(newHash));
+        assert.deepStrictEqual(store.read(oldHash), oldContent);
+    });
+
+    test('逐级还原多层增量', () => {
+        const contents = [1, 2, 3].map(version => Buffer.from(createText(version)));
+        const hashes = contents.map(content => store.write(content));
+
+        assert.ok(store.storeAsDelta(hashes[0], hashes[1]));
+        assert.ok(store.storeAsDelta(hashes[1], hashes[2]));
+        assert.deepStrictEqual(store.read(hashes[0]), contents[0]);
+        assert.deepStrictEqual(store.read(hashes[1]), contents[1]);
+    });
+
+    test('任意字节和换行符都能原样还原', () => {
+        const oldContent = Buffer.concat([Buffer.from(createText(1).replace(/\n/g, '\r\n')), Buffer.from([0xe9, 0xff, 0x0a])]);
+        const oldHash = store.write(oldContent);
+        const newHash = store.write(Buffer.from(createText(2).replace(/\n/g, '\r\n')));
+
+        assert.ok(store.storeAsDelta(oldHash, newHash));
+        assert.deepStrictEqual(store.read(oldHash), oldContent);
+    });
+
+    test('基准已是增量或内容为二进制时不保存为增量', () => {
+        const hashes = [1, 2, 3].map(version => store.write(Buffer.from(createText(version))));
+        assert.ok(store.storeAsDelta(hashes[1], hashes[2]));
+        assert.ok(!store.storeAsDelta(hashes[0], hashes[1]));
+
+        const binaryHash = store.write(Buffer.concat([Buffer.from(createText(4)), Buffer.from([0])]));
+        assert.ok(!store.storeAsDelta(binaryHash, hashes[2]));
+        assert.ok(!store.isDelta(binaryHash));
+    });
+
+    test('清理时保留被引用的增量所依赖的基准内容', () => {
+        const oldContent = Buffer.from(createText(1));
+        const oldHash = store.write(oldContent);
+        const newHash = store.write(Buffer.from(createText(2)));
+        store.storeAsDelta(oldHash, newHash);
+
+        assert.strictEqual(store.prune(new Set([oldHash])), 0);
+        assert.ok(store.has(newHash));
+        assert.deepStrictEqual(store.read(oldHash), oldContent);
+    });
+});
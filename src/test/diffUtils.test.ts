@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { DiffUtils, LineChange } from '../diffUtils';
+
+/**
+ * 按差异块将原始文本的行替换为修改后文本的行
+ */
+function applyChanges(original: string[], modified: string[], changes: LineChange[]): string[] {
+    const result: string[] = [];
+    let line = 0;
+    for (const change of changes) {
+        result.push(...original.slice(line, change.originalStart));
+        result.push(...modified.slice(change.modifiedStart, change.modifiedStart + change.modifiedLength));
+        line = change.originalStart + change.originalLength;
+    }
+    result.push(...original.slice(line));
+    return result;
+}
+
+suite('DiffUtils', () => {
+    test('拆分的行保留换行符，拼接后与原文本一致', () => {
+        const text = 'a\r\nb\n\nc';
+        const lines = DiffUtils.splitLines(text);
+
+        assert.deepStrictEqual(lines, ['a\r\n', 'b\n', '\n', 'c']);
+        assert.strictEqual(lines.join(''), text);
+        assert.deepStrictEqual(DiffUtils.splitLines(''), []);
+    });
+
+    test('相同的文本没有差异', () => {
+        assert.deepStrictEqual(DiffUtils.diffLines(['a\n', 'b\n'], ['a\n', 'b\n']), []);
+    });
+
+    test('插入、删除和修改的行号从 0 开始', () => {
+        assert.deepStrictEqual(DiffUtils.diffLines(['a\n', 'c\n'], ['a\n', 'b\n', 'c\n']), [
+            { originalStart: 1, originalLength: 0, modifiedStart: 1, modifiedLength: 1 }
+        ]);
+        assert.deepStrictEqual(DiffUtils.diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'c\n']), [
+            { originalStart: 1, originalLength: 1, modifiedStart: 1, modifiedLength: 0 }
+        ]);
+        assert.deepStrictEqual(DiffUtils.diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'y\n', 'c\n']), [
+            { originalStart: 1, originalLength: 1, modifiedStart: 1, modifiedLength: 2 }
+        ]);
+    });
+
+    test('相邻的修改合并为一个差异块', () => {
+        const changes = DiffUtils.diffLines(['a\n', 'b\n', 'c\n', 'd\n'], ['a\n', 'x\n', 'y\n', 'd\n']);
+        assert.strictEqual(changes.length, 1);
+        assert.deepStrictEqual(changes[0], { originalStart: 1, originalLength: 2, modifiedStart: 1, modifiedLength: 2 });
+    });
+
+    test('按差异块修改原始文本后得到修改后的文本', () => {
+        // 使用固定种子的伪随机数，保证每次运行的用例相同
+        let seed = 1;
+        const random = (max: number) => {
+            seed = (seed * 16807) % 2147483647;
+            return seed % max;
+        };
+        const randomLines = (count: number) => Array.from({ length: count }, () => `line ${random(8)}\n`);
+
+        for (let i = 0; i < 200; i++) {
+            const original = randomLines(random(20));
+            const modified = randomLines(random(20));
+            const changes = DiffUtils.diffLines(original, modified);
+
+            assert.deepStrictEqual(applyChanges(original, modified, changes), modified);
+            for (let j = 1; j < changes.length; j++) {
+                assert.ok(changes[j].originalStart >= changes[j - 1].originalStart + changes[j - 1].originalLength);
+            }
+        }
+    });
+});
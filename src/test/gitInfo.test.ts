@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { GitInfo } from '../gitInfo';
+
+suite('GitInfo.isHeadChanged', () => {
+    const gitDir = '/project/.git';
+
+    test('在同一分支上提交不算离开', () => {
+        assert.ok(!GitInfo.isHeadChanged({ branch: 'main', commit: 'a1' }, { gitDir, branch: 'main', commit: 'b2' }));
+    });
+
+    test('切换分支或分离头指针', () => {
+        assert.ok(GitInfo.isHeadChanged({ branch: 'main', commit: 'a1' }, { gitDir, branch: 'feature', commit: 'a1' }));
+        assert.ok(GitInfo.isHeadChanged({ branch: 'main', commit: 'a1' }, { gitDir, commit: 'a1' }));
+        assert.ok(GitInfo.isHeadChanged({ commit: 'a1' }, { gitDir, branch: 'main', commit: 'a1' }));
+    });
+
+    test('分离头指针时按提交判断', () => {
+        assert.ok(GitInfo.isHeadChanged({ commit: 'a1' }, { gitDir, commit: 'b2' }));
+        assert.ok(!GitInfo.isHeadChanged({ commit: 'a1' }, { gitDir, commit: 'a1' }));
+    });
+
+    test('快照没有记录 git 信息时视为没有变化', () => {
+        assert.ok(!GitInfo.isHeadChanged({}, { gitDir, branch: 'main', commit: 'a1' }));
+    });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ArchiveEntry, ArchiveManifest, HistoryArchive } from '../historyArchive';
+import { BlobStore } from '../blobStore';
+
+/**
+ * 读取归档，同时收集其中的快照内容
+ */
+async function readAll(archivePath: string): Promise<{ manifest: ArchiveManifest, hashes: Set<string>, contents: Map<string, Buffer> }> {
+    const contents = new Map<string, Buffer>();
+    const archive = await HistoryArchive.read(archivePath, (hash, content) => contents.set(hash, content));
+    return { ...archive, contents };
+}
+
+/**
+ * 生成归档中内容为 content 的记录
+ */
+function createEntry(content: Buffer, overrides: Partial<ArchiveEntry> = {}): ArchiveEntry {
+    return {
+        folder: 'project',
+        path: 'src/a.txt',
+        originalPath: '/project/src/a.txt',
+        timestamp: '2024-01-01_10-00-00',
+        contentHash: BlobStore.hashContent(content),
+        size: content.length,
+        ...overrides
+    };
+}
+
+suite('HistoryArchive', () => {
+    let tempDir: string;
+    let archivePath: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filelocalhistory-'));
+        archivePath = path.join(tempDir, 'history.tar.gz');
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('写入后读回相同的清单和快照内容', async () => {
+        // 包括空内容、恰好占满若干个块的内容，以及跨越多个解压数据块的内容
+        const large = Buffer.alloc(200 * 1024);
+        large.forEach((_, i) => large[i] = (i * 7) % 251);
+        const contents = [Buffer.from('hello\n'), Buffer.alloc(0), Buffer.alloc(1024, 'x'), Buffer.from([0, 1, 2, 255]), large];
+        const manifest: ArchiveManifest = {
+            version: HistoryArchive.VERSION,
+            createdAt: new Date().toISOString(),
+            entries: contents.map((content, i) => createEntry(content, { timestamp: `2024-01-01_10-00-0${i}`, note: i === 0 ? '标签' : undefined }))
+        };
+        const byHash = new Map(contents.map(content => [BlobStore.hashContent(content), content]));
+
+        const written = await HistoryArchive.write(archivePath, manifest, hash => byHash.get(hash) || null);
+        const archive = await readAll(archivePath);
+
+        assert.strictEqual(written, contents.length);
+        assert.deepStrictEqual(archive.manifest, JSON.parse(JSON.stringify(manifest)));
+        assert.deepStrictEqual(archive.hashes, new Set(byHash.keys()));
+        assert.strictEqual(archive.contents.size, contents.length);
+        for (const [hash, content] of byHash) {
+            assert.deepStrictEqual(archive.contents.get(hash), content);
+        }
+    });
+
+    test('同一内容只写入一次，读取不到的内容被跳过', async () => {
+        const content = Buffer.from('shared');
+        const missing = Buffer.from('missing');
+        const manifest: ArchiveManifest = {
+            version: HistoryArchive.VERSION,
+            createdAt: new Date().toISOString(),
+            entries: [
+                createEntry(content),
+                createEntry(content, { timestamp: '2024-01-01_11-00-00' }),
+                createEntry(missing, { timestamp: '2024-01-01_12-00-00' })
+            ]
+        };
+
+        const written = await HistoryArchive.write(archivePath, manifest, hash => hash === BlobStore.hashContent(content) ? content : null);
+
+        assert.strictEqual(written, 1);
+        assert.deepStrictEqual(Array.from((await readAll(archivePath)).contents.keys()), [BlobStore.hashContent(content)]);
+    });
+
+    test('不处理快照内容时只记录其哈希', async () => {
+        const content = Buffer.from('content');
+        const manifest: ArchiveManifest = { version: HistoryArchive.VERSION, createdAt: '', entries: [createEntry(content)] };
+        await HistoryArchive.write(archivePath, manifest, () => content);
+
+        const archive = await HistoryArchive.read(archivePath);
+        assert.deepStrictEqual(archive.manifest.entries, manifest.entries);
+        assert.deepStrictEqual(archive.hashes, new Set([BlobStore.hashContent(content)]));
+    });
+
+    test('生成的 tar 文件头校验和正确', async () => {
+        const manifest: ArchiveManifest = { version: HistoryArchive.VERSION, createdAt: '', entries: [] };
+        await HistoryArchive.write(archivePath, manifest, () => null);
+
+        const header = zlib.gunzipSync(fs.readFileSync(archivePath)).subarray(0, 512);
+        const stored = parseInt(header.subarray(148, 154).toString('ascii'), 8);
+        let checksum = 0;
+        header.forEach((byte, i) => {
+            checksum += i >= 148 && i < 156 ? 0x20 : byte;
+        });
+
+        assert.strictEqual(header.subarray(0, 13).toString('utf8'), 'manifest.json');
+        assert.strictEqual(stored, checksum);
+    });
+
+    test('没有清单、版本过新或已损坏的归档无法读取', async () => {
+        fs.writeFileSync(archivePath, zlib.gzipSync(Buffer.alloc(1024)));
+        await assert.rejects(HistoryArchive.read(archivePath), /没有有效的清单/);
+
+        await HistoryArchive.write(archivePath, { version: HistoryArchive.VERSION + 1, createdAt: '', entries: [] }, () => null);
+        await assert.rejects(HistoryArchive.read(archivePath), /不支持的归档版本/);
+
+        fs.writeFileSync(archivePath, 'not gzip');
+        await assert.rejects(HistoryArchive.read(archivePath));
+    });
+
+    test('检查清单中记录的结构', () => {
+        const entry = createEntry(Buffer.from('content'));
+
+        assert.ok(HistoryArchive.isValidEntry(entry));
+        assert.ok(HistoryArchive.isValidEntry({ ...entry, timestamp: '2024-01-01_10-00-00-001', note: '标签', draft: true }));
+        assert.ok(!HistoryArchive.isValidEntry(null));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, path: undefined }));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, originalPath: 1 }));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, timestamp: '2024-01-01 10:00:00' }));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, contentHash: '../../outside' }));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, size: '7' }));
+        assert.ok(!HistoryArchive.isValidEntry({ ...entry, note: 1 }));
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryIndex } from '../historyIndex';
+import { HistoryRecord } from '../historyManager';
+
+/**
+ * 生成测试用的历史记录
+ */
+function createRecord(timestamp: string): HistoryRecord {
+    return { filePath: '/project/a.txt', timestamp, contentHash: 'hash-' + timestamp, size: 1 };
+}
+
+suite('HistoryIndex', () => {
+    let basePath: string;
+
+    setup(() => {
+        basePath = fs.mkdtempSync(path.join(os.tmpdir(), 'filelocalhistory-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(basePath, { recursive: true, force: true });
+    });
+
+    test('索引文件不存在时加载失败', () => {
+        assert.strictEqual(new HistoryIndex(basePath).load(), false);
+    });
+
+    test('按目录查询添加的记录，删除后不再返回', () => {
+        const index = new HistoryIndex(basePath);
+        index.add('dir/2024-01-01_10-00-00_a.txt.json', createRecord('2024-01-01_10-00-00'));
+        index.add('dir/2024-01-01_11-00-00_a.txt.json', createRecord('2024-01-01_11-00-00'));
+        index.add('other/2024-01-01_10-00-00_b.txt.json', createRecord('2024-01-01_10-00-00'));
+        index.remove('dir/2024-01-01_10-00-00_a.txt.json');
+
+        assert.deepStrictEqual(Array.from(index.getRecordsInDir('dir').keys()), ['2024-01-01_11-00-00_a.txt.json']);
+        assert.strictEqual(index.getRecord('dir/2024-01-01_10-00-00_a.txt.json'), undefined);
+        assert.strictEqual(index.getAllRecords().size, 2);
+    });
+
+    test('工作区存储中的多级目录按最后一个分隔符拆分', () => {
+        const index = new HistoryIndex(basePath);
+        const record = createRecord('2024-01-01_10-00-00');
+        index.add('files/src/a.txt/2024-01-01_10-00-00_a.txt.json', record);
+
+        assert.deepStrictEqual(index.getRecordsInDir('files/src/a.txt').get('2024-01-01_10-00-00_a.txt.json'), record);
+    });
+
+    test('重新加载后恢复日志中的记录，忽略损坏的行', () => {
+        const index = new HistoryIndex(basePath);
+        index.add('dir/a.json', createRecord('2024-01-01_10-00-00'));
+        fs.appendFileSync(path.join(basePath, HistoryIndex.FILE_NAME), '{not json\n');
+        index.add('dir/b.json', createRecord('2024-01-01_11-00-00'));
+
+        const reloaded = new HistoryIndex(basePath);
+        assert.ok(reloaded.load());
+        assert.deepStrictEqual(Array.from(reloaded.getAllRecords().keys()).sort(), ['dir/a.json', 'dir/b.json']);
+    });
+
+    test('读取其他实例追加的记录，写入到一半的行留到下次读取', () => {
+        const first = new HistoryIndex(basePath);
+        const second = new HistoryIndex(basePath);
+        first.add('dir/a.json', createRecord('2024-01-01_10-00-00'));
+        assert.ok(second.load());
+
+        const line = JSON.stringify({ op: 'add', id: 'dir/b.json', record: createRecord('2024-01-01_11-00-00') }) + '\n';
+        fs.appendFileSync(path.join(basePath, HistoryIndex.FILE_NAME), line.substring(0, 10));
+        assert.strictEqual(second.getAllRecords().size, 1);
+
+        fs.appendFileSync(path.join(basePath, HistoryIndex.FILE_NAME), line.substring(10));
+        assert.strictEqual(second.getAllRecords().size, 2);
+    });
+
+    test('重建索引后其他实例重新加载', () => {
+        const first = new HistoryIndex(basePath);
+        const second = new HistoryIndex(basePath);
+        first.add('dir/a.json', createRecord('2024-01-01_10-00-00'));
+        second.load();
+
+        first.rebuild(new Map([['dir/b.json', createRecord('2024-01-01_11-00-00')]]));
+        assert.deepStrictEqual(Array.from(second.getAllRecords().keys()), ['dir/b.json']);
+    });
+});
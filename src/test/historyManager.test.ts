@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { HistoryManager, RetentionTier } from '../historyManager';
+import { Utils } from '../utils';
+
+suite('HistoryManager.thinByTiers', () => {
+    // 固定的本地时间，按天划分的时间段以本地零点为界
+    const now = new Date(2024, 5, 15, 12, 0, 0).getTime();
+    const tiers: RetentionTier[] = [
+        { afterMinutes: 60, intervalMinutes: 10 },
+        { afterMinutes: 1440, intervalMinutes: 60 },
+        { afterMinutes: 10080, intervalMinutes: 1440 }
+    ];
+
+    /**
+     * 生成距现在若干分钟的快照，按时间从新到旧排列
+     */
+    const createEntries = (...minutesAgo: number[]) => minutesAgo
+        .sort((a, b) => a - b)
+        .map(minutes => ({ timestamp: Utils.formatTimestamp(new Date(now - minutes * 60000)), minutesAgo: minutes }));
+
+    const keptMinutes = (entries: { minutesAgo: number }[], removed: Map<unknown, string>) =>
+        entries.filter(entry => !removed.has(entry)).map(entry => entry.minutesAgo);
+
+    test('不在任何级别中的最近快照全部保留', () => {
+        const entries = createEntries(0, 1, 2, 30, 59);
+        assert.strictEqual(HistoryManager.thinByTiers(entries, tiers, now).size, 0);
+    });
+
+    test('每个时间段只保留最新的快照', () => {
+        // 11:00 之前的第一级按 10 分钟分段：10:50-11:00、10:40-10:50
+        const entries = createEntries(61, 65, 69, 71, 79);
+        const removed = HistoryManager.thinByTiers(entries, tiers, now);
+
+        assert.deepStrictEqual(keptMinutes(entries, removed), [61, 71]);
+        assert.strictEqual(removed.get(entries[1]), '每 10 分钟只保留一个快照');
+    });
+
+    test('越早的快照保留得越稀疏', () => {
+        const entries = createEntries(
+            24 * 60 + 1, 24 * 60 + 20, 24 * 60 + 61,
+            8 * 24 * 60, 8 * 24 * 60 + 60, 9 * 24 * 60
+        );
+        const removed = HistoryManager.thinByTiers(entries, tiers, now);
+
+        assert.deepStrictEqual(keptMinutes(entries, removed), [24 * 60 + 1, 24 * 60 + 61, 8 * 24 * 60, 9 * 24 * 60]);
+        assert.strictEqual(removed.get(entries[1]), '每小时只保留一个快照');
+        assert.strictEqual(removed.get(entries[4]), '每天只保留一个快照');
+    });
+
+    test('忽略无效的级别，没有级别时全部保留', () => {
+        const entries = createEntries(100, 101, 102);
+
+        assert.strictEqual(HistoryManager.thinByTiers(entries, [], now).size, 0);
+        assert.strictEqual(HistoryManager.thinByTiers(entries, [{ afterMinutes: 60, intervalMinutes: 0 }], now).size, 0);
+        assert.strictEqual(HistoryManager.thinByTiers(entries, [{ afterMinutes: 60, intervalMinutes: 60 }], now).size, 2);
+    });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { PatchManager } from '../patchManager';
+
+suite('PatchManager.findBaseline', () => {
+    const since = '2024-01-01_12-00-00';
+    const entry = (timestamp: string) => ({ timestamp });
+
+    test('以起始时间点的最后一个快照为基准', () => {
+        const entries = [entry('2024-01-01_10-00-00'), entry('2024-01-01_12-00-00'), entry('2024-01-01_13-00-00')];
+        assert.strictEqual(PatchManager.findBaseline(entries, since), entries[1]);
+        assert.strictEqual(PatchManager.findBaseline([entries[2], entries[0]], since), entries[0]);
+    });
+
+    test('起始时间之后新建的文件以空内容为基准', () => {
+        const entries = [entry('2024-01-01_13-00-00'), entry('2024-01-01_14-00-00')];
+        assert.strictEqual(PatchManager.findBaseline(entries, since), null);
+    });
+
+    test('起始时间之后没有快照时没有修改', () => {
+        assert.strictEqual(PatchManager.findBaseline([entry('2024-01-01_10-00-00')], since), undefined);
+        assert.strictEqual(PatchManager.findBaseline([], since), undefined);
+    });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { PatchUtils } from '../patchUtils';
+
+/**
+ * 生成补丁后解析并应用到旧文本上
+ */
+function roundTrip(oldText: string, newText: string): string {
+    const [filePatch] = PatchUtils.parsePatch(PatchUtils.createPatch('a.txt', 'a.txt', oldText, newText));
+    const result = PatchUtils.applyPatch(oldText, filePatch);
+    assert.ok('text' in result);
+    return result.text;
+}
+
+suite('PatchUtils', () => {
+    test('生成与 git 格式一致的补丁', () => {
+        const patch = PatchUtils.createPatch('src/a.txt', 'src/a.txt', 'a\nb\nc\n', 'a\nB\nc\n');
+
+        assert.strictEqual(patch, [
+            '--- a/src/a.txt',
+            '+++ b/src/a.txt',
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '-b',
+            '+B',
+            ' c',
+            ''
+        ].join('\n'));
+    });
+
+    test('内容相同时补丁为空', () => {
+        assert.strictEqual(PatchUtils.createPatch('a.txt', 'a.txt', 'same\n', 'same\n'), '');
+    });
+
+    test('标记并还原文件末尾缺少的换行符', () => {
+        const patch = PatchUtils.createPatch('a.txt', 'a.txt', 'a\nb', 'a\nb\n');
+
+        assert.ok(patch.includes('-b\n\\ No newline at end of file\n+b\n'));
+        assert.strictEqual(roundTrip('a\nb', 'a\nb\n'), 'a\nb\n');
+        assert.strictEqual(roundTrip('a\nb\n', 'a\nb'), 'a\nb');
+    });
+
+    test('新建和删除文件', () => {
+        const created = PatchUtils.parsePatch(PatchUtils.createPatch(PatchUtils.NULL_PATH, 'a.txt', '', 'x\ny\n'));
+        assert.strictEqual(created[0].oldPath, PatchUtils.NULL_PATH);
+        assert.deepStrictEqual(PatchUtils.applyPatch('', created[0]), { text: 'x\ny\n' });
+
+        const deleted = PatchUtils.parsePatch(PatchUtils.createPatch('a.txt', PatchUtils.NULL_PATH, 'x\ny\n', ''));
+        assert.strictEqual(deleted[0].newPath, PatchUtils.NULL_PATH);
+        assert.deepStrictEqual(PatchUtils.applyPatch('x\ny\n', deleted[0]), { text: '' });
+    });
+
+    test('解析包含多个文件和 git 扩展头的补丁', () => {
+        const files = PatchUtils.parsePatch([
+            'diff --git a/one.txt b/one.txt',
+            'index 0000001..0000002 100644',
+            '--- a/one.txt\t2024-01-01 10:00:00',
+            '+++ b/one.txt\t2024-01-01 10:00:01',
+            '@@ -1 +1 @@',
+            '-old',
+            '+new',
+            'diff --git a/two.txt b/two.txt',
+            '--- a/two.txt',
+            '+++ b/two.txt',
+            '@@ -1,2 +1,3 @@',
+            ' first',
+            '+inserted',
+            ' second',
+            ''
+        ].join('\n'));
+
+        assert.deepStrictEqual(files.map(file => file.newPath), ['one.txt', 'two.txt']);
+        assert.deepStrictEqual(files[0].hunks[0].lines, ['-old', '+new']);
+        assert.deepStrictEqual(files[1].hunks[0], {
+            oldStart: 1,
+            oldLength: 2,
+            newStart: 1,
+            newLength: 3,
+            lines: [' first', '+inserted', ' second'],
+            noNewline: [false, false, false]
+        });
+    });
+
+    test('差异块的位置有偏移时在附近查找', () => {
+        const [filePatch] = PatchUtils.parsePatch(PatchUtils.createPatch('a.txt', 'a.txt', 'a\nb\nc\nd\n', 'a\nb\nC\nd\n'));
+
+        assert.deepStrictEqual(PatchUtils.applyPatch('x\ny\na\nb\nc\nd\n', filePatch), { text: 'x\ny\na\nb\nC\nd\n' });
+    });
+
+    test('上下文不匹配时返回出错的差异块', () => {
+        const oldText = Array.from({ length: 20 }, (_, i) => `line ${i}\n`).join('');
+        const newText = oldText.replace('line 2\n', 'changed 2\n').replace('line 17\n', 'changed 17\n');
+        const [filePatch] = PatchUtils.parsePatch(PatchUtils.createPatch('a.txt', 'a.txt', oldText, newText));
+
+        assert.strictEqual(filePatch.hunks.length, 2);
+        assert.deepStrictEqual(PatchUtils.applyPatch(oldText.replace('line 16\n', 'other\n'), filePatch), { failedHunk: 2 });
+    });
+
+    test('应用生成的补丁后得到新文本', () => {
+        // 使用固定种子的伪随机数，保证每次运行的用例相同
+        let seed = 7;
+        const random = (max: number) => {
+            seed = (seed * 16807) % 2147483647;
+            return seed % max;
+        };
+        const randomText = () => {
+            const lines = Array.from({ length: random(30) }, () => `line ${random(6)}${random(4) === 0 ? '\r' : ''}\n`);
+            return lines.join('') + (random(3) === 0 ? 'last' : '');
+        };
+
+        for (let i = 0; i < 200; i++) {
+            const oldText = randomText();
+            const newText = randomText();
+            if (oldText !== newText) {
+                assert.strictEqual(roundTrip(oldText, newText), newText);
+            }
+        }
+    });
+});
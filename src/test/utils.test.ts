@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { FileRule, Utils } from '../utils';
+
+suite('Utils.findMostSpecificRule', () => {
+    test('没有匹配的规则时返回 undefined', () => {
+        assert.strictEqual(Utils.findMostSpecificRule({ '**/*.sql': { maxAgeInDays: 90 } }, 'src/a.ts'), undefined);
+        assert.strictEqual(Utils.findMostSpecificRule({}, 'src/a.ts'), undefined);
+    });
+
+    test('去掉通配符后剩余字符更多的模式优先，与规则的顺序无关', () => {
+        const general: FileRule = { maxAgeInDays: 90 };
+        const specific: FileRule = { maxAgeInDays: 365 };
+
+        assert.strictEqual(Utils.findMostSpecificRule({ '**/*.sql': general, 'db/*.sql': specific }, 'db/schema.sql'), specific);
+        assert.strictEqual(Utils.findMostSpecificRule({ 'db/*.sql': specific, '**/*.sql': general }, 'db/schema.sql'), specific);
+        assert.strictEqual(Utils.findMostSpecificRule({ '**/*.sql': general, 'db/*.sql': specific }, 'other/schema.sql'), general);
+    });
+
+    test('剩余字符相同时 ** 更少的模式优先', () => {
+        const deep: FileRule = { maxHistoryFiles: 5 };
+        const shallow: FileRule = { maxHistoryFiles: 10 };
+
+        assert.strictEqual(Utils.findMostSpecificRule({ 'src/**/a.ts': deep, 'src/*/a.ts': shallow }, 'src/lib/a.ts'), shallow);
+    });
+
+    test('同样具体时使用先出现的规则', () => {
+        const first: FileRule = { maxHistoryFiles: 1 };
+        const second: FileRule = { maxHistoryFiles: 2 };
+
+        assert.strictEqual(Utils.findMostSpecificRule({ '*.ts': first, 'a.t?': second }, 'a.ts'), first);
+        assert.strictEqual(Utils.findMostSpecificRule({ 'a.t?': second, '*.ts': first }, 'a.ts'), second);
+    });
+
+    test('忽略不是对象的规则', () => {
+        const rule: FileRule = { enabled: false };
+        const rules = { 'dist/**/*.js': null, 'dist/**': rule } as unknown as Record<string, FileRule>;
+
+        assert.strictEqual(Utils.findMostSpecificRule(rules, 'dist/app/main.js'), rule);
+    });
+});
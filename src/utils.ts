@@ -4,6 +4,22 @@ import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { minimatch } from 'minimatch';
 
+/**
+ * rules 设置中按路径模式为文件指定的规则，未设置的项使用全局设置
+ */
+export interface FileRule {
+    enabled?: boolean;             // 为 false 时不跟踪匹配的文件
+    maxHistoryFiles?: number;
+    maxAgeInDays?: number;
+    maxFileSizeMB?: number;
+    retentionPolicy?: 'count' | 'tiered';
+}
+
+/**
+ * 历史记录时间戳的格式，同一秒内的多个快照在秒数后带有三位序号
+ */
+const TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}_\\d{2}-\\d{2}-\\d{2}(?:-\\d{3})?';
+
 export class Utils {
     /**
      * 获取历史记录的基本存储路径
@@ -12,14 +28,35 @@ export class Utils {
         const config = vscode.workspace.getConfiguration('filelocalhistory');
         const customPath = config.get<string>('historyPath', '');
         
-        if (customPath && fs.existsSync(customPath)) {
-            return customPath;
+        // 自定义路径不存在时创建，无法创建时提示并使用默认路径
+        if (customPath) {
+            try {
+                fs.mkdirSync(customPath, { recursive: true });
+                return customPath;
+            } catch (error) {
+                console.error('创建历史记录存储路径失败:', error);
+                vscode.window.showWarningMessage(`无法使用历史记录存储路径 ${customPath}，将使用默认路径`);
+            }
         }
         
         // 默认使用扩展的存储路径下的 history 目录
         return path.join(context.globalStorageUri.fsPath, 'history');
     }
 
+    /**
+     * 获取文件所在工作区文件夹的配置，多根工作区中各文件夹可以有不同的设置
+     */
+    public static getConfiguration(filePath?: string): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('filelocalhistory', filePath ? vscode.Uri.file(filePath) : undefined);
+    }
+
+    /**
+     * 获取文件所在的工作区文件夹，不在任何工作区文件夹中时返回 undefined
+     */
+    public static getWorkspaceFolder(filePath: string): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    }
+
     /**
      * 为文件生成基于路径的哈希值，用于区分不同项目和文件
      */
@@ -30,38 +67,28 @@ export class Utils {
     }
 
     /**
-     * 根据文件路径生成历史记录目录
+     * 获取格式化的时间戳
      */
-    public static getHistoryDirForFile(basePath: string, filePath: string): string {
-        const hash = this.getHashForFile(filePath);
-        const dir = path.join(basePath, hash);
-        
-        // 确保目录存在
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-        
-        return dir;
+    public static getFormattedTimestamp(): string {
+        return this.formatTimestamp(new Date());
     }
 
     /**
-     * 获取格式化的时间戳
+     * 将时间格式化为时间戳，格式与历史记录文件名中的时间戳相同，可以直接按字符串比较先后
      */
-    public static getFormattedTimestamp(): string {
-        const now = new Date();
-        return now.getFullYear() + 
-               '-' + this.pad(now.getMonth() + 1) + 
-               '-' + this.pad(now.getDate()) + 
-               '_' + this.pad(now.getHours()) + 
-               '-' + this.pad(now.getMinutes()) + 
-               '-' + this.pad(now.getSeconds());
+    public static formatTimestamp(date: Date): string {
+        return date.getFullYear() + 
+               '-' + this.pad(date.getMonth() + 1) + 
+               '-' + this.pad(date.getDate()) + 
+               '_' + this.pad(date.getHours()) + 
+               '-' + this.pad(date.getMinutes()) + 
+               '-' + this.pad(date.getSeconds());
     }
 
     /**
-     * 生成历史记录文件名
+     * 生成历史记录文件名，默认使用当前时间
      */
-    public static getHistoryFileName(filePath: string): string {
-        const timestamp = this.getFormattedTimestamp();
+    public static getHistoryFileName(filePath: string, timestamp: string = this.getFormattedTimestamp()): string {
         const fileName = path.basename(filePath);
         return `${timestamp}_${fileName}`;
     }
@@ -70,7 +97,7 @@ export class Utils {
      * 从历史记录文件名中提取时间戳和原始文件名
      */
     public static parseHistoryFileName(historyFileName: string): { timestamp: string, originalFileName: string } | null {
-        const match = historyFileName.match(/^(\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2})_(.+)$/);
+        const match = historyFileName.match(new RegExp(`^(${TIMESTAMP_PATTERN})_(.+)$`));
         if (!match) {
             return null;
         }
@@ -81,6 +108,13 @@ export class Utils {
         };
     }
 
+    /**
+     * 判断是否为有效的历史记录时间戳
+     */
+    public static isValidTimestamp(timestamp: string): boolean {
+        return new RegExp(`^${TIMESTAMP_PATTERN}$`).test(timestamp);
+    }
+
     /**
      * 将数字转为两位数字符串
      */
@@ -90,9 +124,12 @@ export class Utils {
      * 检查文件是否应该被排除在历史记录之外
      */
     public static shouldExcludeFile(filePath: string): boolean {
-        const config = vscode.workspace.getConfiguration('filelocalhistory');
+        if (Utils.getFileRule(filePath)?.enabled === false) {
+            return true;
+        }
+        
+        const config = Utils.getConfiguration(filePath);
         const excludePatterns = config.get<string[]>('excludedFiles', []);
-        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
         
         for (const pattern of excludePatterns) {
             // 常见的排除模式使用快速检测
@@ -109,8 +146,7 @@ export class Utils {
                     return true;
                 }            } else {
                 // 使用 minimatch 进行匹配
-                const relativeFilePath = path.relative(workspacePath, filePath);
-                if (minimatch(relativeFilePath, pattern)) {
+                if (minimatch(Utils.getMatchPath(filePath), pattern)) {
                     return true;
                 }
             }
@@ -119,6 +155,164 @@ export class Utils {
         return false;
     }
 
+    /**
+     * 获取与文件匹配的最具体的规则，没有匹配的规则时返回 undefined
+     */
+    public static getFileRule(filePath: string): FileRule | undefined {
+        const rules = Utils.getConfiguration(filePath).get<Record<string, FileRule>>('rules', {});
+        return Utils.findMostSpecificRule(rules, Utils.getMatchPath(filePath));
+    }
+
+    /**
+     * 在规则中查找与路径匹配的最具体的规则，路径使用 / 分隔
+     * 多个模式匹配时，去掉通配符后剩余的字符越多越具体，相同时 ** 越少越具体，仍然相同时使用先出现的规则
+     */
+    public static findMostSpecificRule(rules: Record<string, FileRule>, matchPath: string): FileRule | undefined {
+        let bestRule: FileRule | undefined;
+        let bestScore: [number, number] | undefined;
+        
+        for (const [pattern, rule] of Object.entries(rules)) {
+            if (!rule || typeof rule !== 'object' || !minimatch(matchPath, pattern)) {
+                continue;
+            }
+            
+            const score: [number, number] = [
+                pattern.replace(/[*?[\]{}!]/g, '').length,
+                -(pattern.match(/\*\*/g) || []).length
+            ];
+            if (!bestScore || score[0] > bestScore[0] || (score[0] === bestScore[0] && score[1] > bestScore[1])) {
+                bestRule = rule;
+                bestScore = score;
+            }
+        }
+        
+        return bestRule;
+    }
+
+    /**
+     * 获取文件的设置，匹配的规则中设置了该项时使用规则中的值
+     */
+    public static getFileSetting<K extends keyof FileRule>(filePath: string, key: K, defaultValue: NonNullable<FileRule[K]>): NonNullable<FileRule[K]> {
+        const value = Utils.getFileRule(filePath)?.[key];
+        if (value !== undefined && value !== null) {
+            return value as NonNullable<FileRule[K]>;
+        }
+        return Utils.getConfiguration(filePath).get<NonNullable<FileRule[K]>>(key, defaultValue);
+    }
+
+    /**
+     * 用于匹配路径模式的路径：相对于文件所在的工作区文件夹，使用 / 分隔
+     */
+    private static getMatchPath(filePath: string): string {
+        const workspaceFolder = Utils.getWorkspaceFolder(filePath);
+        const relativeFilePath = workspaceFolder
+            ? path.relative(workspaceFolder.uri.fsPath, filePath)
+            : filePath;
+        return relativeFilePath.split(path.sep).join('/');
+    }
+
+    /**
+     * 从时间戳字符串创建Date对象
+     */
+    public static getDateFromTimestamp(timestamp: string): Date {
+        try {
+            const [datePart, timePart] = timestamp.split('_');
+            const [year, month, day] = datePart.split('-').map(n => parseInt(n, 10));
+            const [hour, minute, second] = timePart.split('-').map(n => parseInt(n, 10));
+            
+            return new Date(year, month - 1, day, hour, minute, second);
+        } catch (e) {
+            return new Date();
+        }
+    }
+
+    /**
+     * 根据内容判断是否为二进制，前 8000 个字节中出现空字节即视为二进制
+     */
+    public static isBinaryContent(content: Uint8Array): boolean {
+        return content.subarray(0, 8000).includes(0);
+    }
+
+    /**
+     * 只读取文件开头的内容判断是否为二进制文件，无法读取时返回 false
+     */
+    public static isBinaryFile(filePath: string): boolean {
+        let fd: number | undefined;
+        try {
+            fd = fs.openSync(filePath, 'r');
+            const buffer = Buffer.alloc(8000);
+            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+            return Utils.isBinaryContent(buffer.subarray(0, bytesRead));
+        } catch (error) {
+            return false;
+        } finally {
+            if (fd !== undefined) {
+                fs.closeSync(fd);
+            }
+        }
+    }
+
+    /**
+     * 根据文件头识别常见的图片格式，返回对应的 MIME 类型，不是图片时返回 undefined
+     */
+    public static getImageMimeType(content: Uint8Array): string | undefined {
+        const startsWith = (bytes: number[], offset = 0) =>
+            content.length >= offset + bytes.length && bytes.every((byte, i) => content[offset + i] === byte);
+
+        if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+            return 'image/png';
+        }
+        if (startsWith([0xff, 0xd8, 0xff])) {
+            return 'image/jpeg';
+        }
+        if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+            return 'image/gif';
+        }
+        if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+            return 'image/webp';
+        }
+        if (startsWith([0x42, 0x4d])) {
+            return 'image/bmp';
+        }
+        if (startsWith([0x00, 0x00, 0x01, 0x00])) {
+            return 'image/x-icon';
+        }
+        return undefined;
+    }
+
+    /**
+     * 将字节数格式化为可读的大小
+     */
+    public static formatFileSize(bytes: number): string {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+
+    /**
+     * 将时间戳格式化为距现在的相对时间，例如“3 小时前”
+     */
+    public static formatRelativeTime(timestamp: string): string {
+        const seconds = Math.max(0, Math.floor((Date.now() - this.getDateFromTimestamp(timestamp).getTime()) / 1000));
+        if (seconds < 60) {
+            return '刚刚';
+        }
+        if (seconds < 60 * 60) {
+            return `${Math.floor(seconds / 60)} 分钟前`;
+        }
+        if (seconds < 24 * 60 * 60) {
+            return `${Math.floor(seconds / 60 / 60)} 小时前`;
+        }
+        if (seconds < 30 * 24 * 60 * 60) {
+            return `${Math.floor(seconds / 24 / 60 / 60)} 天前`;
+        }
+        return this.getDateFromTimestamp(timestamp).toLocaleDateString();
+    }
+
     /**
      * 格式化时间戳为可读字符串
      */